@@ -1,9 +1,19 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ProcessingLog, FileData, ConversionStatus, ConversionMode } from './types';
-import { convertToDocx } from './services/docxConverter';
-import { convertDocxToMd } from './services/mdConverter';
-import { polishMarkdown } from './services/aiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ProcessingLog, FileData, ConversionStatus, ConversionMode, DocxOptions, CodeTheme, PageSize, ThemeName, HeaderFooterContent, AISettings, AIProviderKind, WordImportOptions, CommentHandling, TrackedChangeHandling } from './types';
+import { convertToDocx, DEFAULT_DOCX_OPTIONS } from './services/docxConverter';
+import { convertDocxToMd, loadWordImportOptions, saveWordImportOptions } from './services/mdConverter';
+import { PAGE_SIZES } from './services/docStyles';
+import { DOC_THEMES } from './services/docThemes';
+import { polishMarkdown, createAIProvider, AIProviderError, AI_PROVIDERS, DEFAULT_AI_SETTINGS } from './services/aiService';
+import { createMarkdownBundle, readMarkdownBundle } from './services/markdownBundle';
+import { buildReview, applyReview, diffWords, createUnifiedPatch, MarkdownReview, DiffPart } from './services/markdownDiff';
+import { PromptLibrary, PromptPreset, PromptMode, allPresets, selectedPreset, loadPromptLibrary, savePromptLibrary, usesVariable } from './services/promptPresets';
+import { ProtectedContent } from './services/markdownChunks';
+import { renderPreview, DocumentPreview, PreviewAsset } from './services/markdownPreview';
+import { readBatchInput, convertBatch, BatchInput, BatchItem, BatchStatus } from './services/batchConverter';
+import { lintMarkdown, describeLintIssue, LintSeverity } from './services/documentLint';
+import { listPlugins, loadDisabledPlugins, saveDisabledPlugins } from './services/rendererPlugins';
 import { 
   FileText, 
   Wand2, 
@@ -19,9 +29,79 @@ import {
   Copy,
   Check,
   FolderOpen,
-  Files
+  Files,
+  SlidersHorizontal,
+  BookOpen,
+  Palette,
+  GitCompare,
+  FileDiff,
+  Plus,
+  PenLine,
+  Eye,
+  Save,
+  ListChecks,
+  Circle,
+  AlertTriangle,
+  Info,
+  Puzzle,
+  X
 } from 'lucide-react';
 
+const HEADER_FOOTER_LABELS: Record<HeaderFooterContent, string> = {
+  'none': 'None',
+  'title': 'Document title',
+  'page': 'Page X',
+  'page-of-total': 'Page X of Y',
+};
+
+// AI changes waiting for the user to accept or reject them
+interface PendingReview {
+  original: string;
+  review: MarkdownReview;
+  // Word-level diff of each change block, by hunk id
+  words: DiffPart<string>[][];
+  accepted: Set<number>;
+}
+
+const PROTECTED_CONTENT_LABELS: Record<ProtectedContent, string> = {
+  code: 'Code blocks',
+  images: 'Images',
+  tables: 'Tables',
+};
+
+// The preview is redrawn once typing pauses for this long
+const PREVIEW_DELAY_MS = 300;
+
+// Editor text with the given ranges marked; drawn behind the transparent textarea
+const highlightRanges = (text: string, ranges: { start: number; end: number }[]): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach((range, index) => {
+    parts.push(text.slice(last, range.start));
+    parts.push(<mark key={index} className="bg-red-200 text-transparent rounded-sm">{text.slice(range.start, range.end)}</mark>);
+    last = range.end;
+  });
+  // A trailing newline keeps the last line's height in step with the textarea
+  parts.push(`${text.slice(last)}\n`);
+  return parts;
+};
+
+const BATCH_STATUS_ICONS: Record<BatchStatus, React.ReactNode> = {
+  queued: <Circle className="w-4 h-4 text-slate-300" />,
+  converting: <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-emerald-500" />,
+  failed: <AlertCircle className="w-4 h-4 text-red-500" />,
+};
+
+const LINT_SEVERITY_ICONS: Record<LintSeverity, React.ReactNode> = {
+  error: <AlertCircle className="w-4 h-4 shrink-0 text-red-500" />,
+  warning: <AlertTriangle className="w-4 h-4 shrink-0 text-amber-500" />,
+  info: <Info className="w-4 h-4 shrink-0 text-slate-400" />,
+};
+
+// Unchanged stretches in the review are shortened to this many lines either side of a change
+const REVIEW_CONTEXT_LINES = 2;
+
 const App: React.FC = () => {
   const [mode, setMode] = useState<ConversionMode>(ConversionMode.MD_TO_DOCX);
   const [sourceFile, setSourceFile] = useState<FileData | null>(null);
@@ -29,9 +109,24 @@ const App: React.FC = () => {
   const [logs, setLogs] = useState<ProcessingLog[]>([]);
   const [status, setStatus] = useState<ConversionStatus>(ConversionStatus.IDLE);
   const [isAiEnabled, setIsAiEnabled] = useState(false);
+  const [aiSettings, setAiSettings] = useState<AISettings>(DEFAULT_AI_SETTINGS);
+  const [reviewAiEdits, setReviewAiEdits] = useState(true);
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(loadPromptLibrary);
+  const [preview, setPreview] = useState<DocumentPreview | null>(null);
+  // Several documents, or a zipped docs tree, converted in one go
+  const [batch, setBatch] = useState<{ input: BatchInput; items: BatchItem[] } | null>(null);
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const reviewResolver = useRef<((markdown: string | null) => void) | null>(null);
   const [lastOutput, setLastOutput] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [docxOptions, setDocxOptions] = useState<DocxOptions>(() => ({ ...DEFAULT_DOCX_OPTIONS, disabledPlugins: loadDisabledPlugins() }));
+  const [referenceDoc, setReferenceDoc] = useState<FileData | null>(null);
+  const [bibliography, setBibliography] = useState<FileData | null>(null);
+  const [failOnLintErrors, setFailOnLintErrors] = useState(false);
+  const [wordOptions, setWordOptions] = useState<WordImportOptions>(loadWordImportOptions);
   const logEndRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
 
   const addLog = useCallback((message: string, level: ProcessingLog['level'] = 'info') => {
     setLogs(prev => [
@@ -44,10 +139,185 @@ const App: React.FC = () => {
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  useEffect(() => {
+    savePromptLibrary(promptLibrary);
+  }, [promptLibrary]);
+
+  useEffect(() => {
+    saveWordImportOptions(wordOptions);
+  }, [wordOptions]);
+
+  useEffect(() => {
+    saveDisabledPlugins(docxOptions.disabledPlugins);
+  }, [docxOptions.disabledPlugins]);
+
+  // Word import leaves out the Word mappings of the syntax switched off for Markdown
+  const importOptions = { ...wordOptions, disabledPlugins: docxOptions.disabledPlugins };
+
+  const togglePlugin = (id: string, enabled: boolean) => setDocxOptions(prev => ({
+    ...prev,
+    disabledPlugins: enabled ? prev.disabledPlugins.filter(disabled => disabled !== id) : [...prev.disabledPlugins, id],
+  }));
+
+  const markdownSource = mode === ConversionMode.MD_TO_DOCX ? sourceFile?.content : undefined;
+
+  const previewAssets = useMemo(() => {
+    const assets = new Map<string, PreviewAsset>();
+    images.forEach((image, key) => {
+      if (image.arrayBuffer) assets.set(key, { data: image.arrayBuffer, url: URL.createObjectURL(image.file) });
+    });
+    return assets;
+  }, [images]);
+
+  useEffect(() => () => previewAssets.forEach(asset => URL.revokeObjectURL(asset.url)), [previewAssets]);
+
+  useEffect(() => {
+    if (markdownSource === undefined) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      renderPreview(markdownSource, previewAssets, docxOptions, { bibliography: bibliography?.content })
+        .then(result => { if (!cancelled) setPreview(result); })
+        .catch(error => {
+          if (!cancelled) setPreview({ html: '', warnings: [`Preview failed: ${error instanceof Error ? error.message : String(error)}`] });
+        });
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [markdownSource, previewAssets, docxOptions, bibliography]);
+
+  const lintIssues = useMemo(
+    () => markdownSource === undefined ? [] : lintMarkdown(markdownSource, previewAssets, docxOptions.disabledPlugins),
+    [markdownSource, previewAssets, docxOptions.disabledPlugins]
+  );
+  const missingImages = lintIssues.filter(issue => issue.rule === 'missing-image');
+  const lintCounts = (['error', 'warning', 'info'] as LintSeverity[])
+    .map(severity => [severity, lintIssues.filter(issue => issue.severity === severity).length] as const)
+    .filter(([, count]) => count > 0);
+
+  const updateMarkdown = (content: string) => setSourceFile(prev => prev && { ...prev, content });
+
+  // Starts an empty document for writing straight into the editor
+  const startWriting = () => {
+    setSourceFile({ file: new File([''], 'untitled.md', { type: 'text/markdown' }), content: '' });
+    setBatch(null);
+    addLog("New document started in the editor.", 'info');
+  };
+
+  const selectInEditor = (range: { start: number; end: number }) => {
+    editorRef.current?.focus();
+    editorRef.current?.setSelectionRange(range.start, range.end);
+  };
+
+  const downloadMarkdown = () => {
+    if (!sourceFile || markdownSource === undefined) return;
+    downloadFile(new Blob([markdownSource], { type: 'text/markdown' }), `${sourceFile.file.name.split('.')[0]}.md`);
+    addLog("Edited Markdown saved.", 'success');
+  };
+
+  const activePreset = selectedPreset(promptLibrary);
+
+  const updatePreset = (changes: Partial<PromptPreset>) => {
+    setPromptLibrary(prev => ({
+      ...prev,
+      custom: prev.custom.map(preset => preset.id === activePreset.id ? { ...preset, ...changes } : preset),
+    }));
+  };
+
+  // New presets start as a copy of the selected one, built-in or not
+  const duplicatePreset = () => {
+    const copy: PromptPreset = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: `${activePreset.name} (copy)`,
+      template: activePreset.template,
+      mode: activePreset.mode,
+      partNote: activePreset.partNote,
+      protect: [...activePreset.protect],
+    };
+    setPromptLibrary(prev => ({ ...prev, custom: [...prev.custom, copy], selectedId: copy.id }));
+  };
+
+  const deletePreset = () => {
+    setPromptLibrary(prev => ({
+      ...prev,
+      custom: prev.custom.filter(preset => preset.id !== activePreset.id),
+      selectedId: 'cleanup',
+    }));
+  };
+
+  // A zip exported by Word→MD carries document.md and its images/ folder together
+  const loadMarkdownBundle = async (file: File) => {
+    try {
+      const bundle = await readMarkdownBundle(await file.arrayBuffer());
+      const assets = new Map<string, FileData>();
+      bundle.images.forEach((arrayBuffer, path) => {
+        assets.set(path, { file: new File([arrayBuffer], path.split('/').pop() || path), arrayBuffer });
+      });
+      setSourceFile({ file, content: bundle.markdown });
+      setBatch(null);
+      setImages(assets);
+      addLog(`${file.name} unpacked: ${bundle.name} with ${assets.size} asset(s).`, 'success');
+    } catch (error) {
+      addLog(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  };
+
+  const handleReferenceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReferenceDoc({ file, arrayBuffer: await file.arrayBuffer() });
+    addLog(`Reference document loaded: ${file.name}`, 'success');
+  };
+
+  const handleBibliographyUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBibliography({ file, content: await file.text() });
+    addLog(`Bibliography loaded: ${file.name}`, 'success');
+  };
+
+  // Files keep their folder paths, so documents find their images as they do on disk
+  const loadBatch = async (files: File[]) => {
+    try {
+      const input = await readBatchInput(await Promise.all(files.map(async file => ({
+        path: file.webkitRelativePath || file.name,
+        data: await file.arrayBuffer(),
+      }))));
+      if (input.documents.length === 0) {
+        addLog("No .md or .docx documents found in the upload.", "error");
+        return;
+      }
+      // A zip holding a single Markdown file is a bundle from Word→MD, edited as one document
+      if (files.length === 1 && mode === ConversionMode.MD_TO_DOCX && input.documents.length === 1 && input.documents[0].kind === 'markdown') {
+        loadMarkdownBundle(files[0]);
+        return;
+      }
+      setSourceFile(null);
+      setBatch({ input, items: input.documents.map(doc => ({ path: doc.path, kind: doc.kind, status: 'queued', warnings: [] })) });
+      addLog(`${input.documents.length} document(s) queued with ${input.assets.size} other file(s).`, 'success');
+    } catch (error) {
+      addLog(`Could not read the upload: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    const file = files[0];
     if (!file) return;
 
+    if (files.length > 1 || /\.zip$/i.test(file.name)) {
+      loadBatch(files);
+      return;
+    }
+    setBatch(null);
+
     const reader = new FileReader();
     reader.onload = (event) => {
       const result = event.target?.result;
@@ -99,7 +369,108 @@ const App: React.FC = () => {
     addLog(`Scanning ${fileList.length} files...`, 'info');
   };
 
+  // An AI failure is reported and the conversion carries on with the text as it was.
+  // Returns null if the user cancels while reviewing the changes.
+  const polish = async (markdown: string): Promise<string | null> => {
+    let polished: string;
+    try {
+      const provider = createAIProvider(aiSettings);
+      addLog(`AI polishing with ${provider.name} (${provider.model}), preset "${activePreset.name}"...`, "info");
+      polished = await polishMarkdown(markdown, provider, {
+        onLog: (msg, lvl) => addLog(msg, lvl),
+        preset: activePreset,
+        glossary: promptLibrary.glossary,
+        maxChunkTokens: aiSettings.maxChunkTokens,
+        concurrency: aiSettings.concurrency,
+      });
+      addLog("AI polishing finished.", "success");
+    } catch (error) {
+      if (!(error instanceof AIProviderError)) throw error;
+      addLog(`AI polishing failed (${error.kind}): ${error.message}`, "error");
+      addLog("Continuing with the unpolished Markdown.", "warning");
+      return markdown;
+    }
+    return reviewAiEdits ? reviewChanges(markdown, polished) : polished;
+  };
+
+  // Waits for the user to go through the AI's changes in the review panel
+  const reviewChanges = (original: string, polished: string) => new Promise<string | null>(resolve => {
+    const review = buildReview(original, polished);
+    if (!review.hunks.length) {
+      addLog("AI polishing made no changes.", "info");
+      resolve(original);
+      return;
+    }
+    addLog(`AI suggested ${review.hunks.length} change block(s). Review them to continue.`, "info");
+    reviewResolver.current = resolve;
+    setStatus(ConversionStatus.REVIEWING);
+    setPendingReview({
+      original,
+      review,
+      words: review.hunks.map(hunk => diffWords(hunk.removed.join('\n'), hunk.added.join('\n'))),
+      accepted: new Set(review.hunks.map(hunk => hunk.id)),
+    });
+  });
+
+  const finishReview = (keep: boolean) => {
+    if (!pendingReview) return;
+    const { review, accepted } = pendingReview;
+    if (keep) addLog(`Kept ${accepted.size} of ${review.hunks.length} AI change block(s).`, "success");
+    reviewResolver.current?.(keep ? applyReview(review, accepted) : null);
+    reviewResolver.current = null;
+    setPendingReview(null);
+  };
+
+  const toggleHunk = (id: number) => setPendingReview(prev => {
+    if (!prev) return prev;
+    const accepted = new Set(prev.accepted);
+    if (accepted.has(id)) accepted.delete(id);
+    else accepted.add(id);
+    return { ...prev, accepted };
+  });
+
+  const downloadReviewPatch = () => {
+    if (!pendingReview || !sourceFile) return;
+    const name = `${sourceFile.file.name.split('.')[0]}.md`;
+    const patch = createUnifiedPatch(pendingReview.original, applyReview(pendingReview.review, pendingReview.accepted), name);
+    if (!patch) {
+      addLog("No accepted changes to save as a patch.", "warning");
+      return;
+    }
+    downloadFile(new Blob([patch], { type: 'text/x-diff' }), `${name.replace(/\.md$/, '')}.ai.patch`);
+    addLog("Accepted AI changes saved as a patch.", "success");
+  };
+
+  const runBatch = async (input: BatchInput) => {
+    setStatus(ConversionStatus.GENERATING);
+    addLog(`Converting ${input.documents.length} document(s)...`, "info");
+    if (isAiEnabled) addLog("AI polishing is not applied in batch mode.", "warning");
+    try {
+      const { archive, items } = await convertBatch(input, {
+        docxOptions,
+        resources: { referenceDoc: referenceDoc?.arrayBuffer, bibliography: bibliography?.content },
+        wordOptions: importOptions,
+        onLog: (msg, lvl) => addLog(msg, lvl),
+        onProgress: items => setBatch(prev => prev && { ...prev, items }),
+        failOnLintErrors,
+      });
+      downloadFile(archive, 'converted.zip');
+      const failed = items.filter(item => item.status === 'failed').length;
+      setStatus(failed === items.length ? ConversionStatus.ERROR : ConversionStatus.COMPLETED);
+      addLog(`Batch finished: ${items.length - failed} converted, ${failed} failed. Outputs and report downloaded.`, failed ? "warning" : "success");
+    } catch (error) {
+      console.error(error);
+      setStatus(ConversionStatus.ERROR);
+      addLog(`Failure: ${error instanceof Error ? error.message : 'Unknown error'}`, "error");
+    }
+  };
+
   const startConversion = async () => {
+    if (batch) {
+      setLastOutput(null);
+      await runBatch(batch.input);
+      return;
+    }
     if (!sourceFile) {
       addLog("Source file missing.", "error");
       return;
@@ -112,33 +483,61 @@ const App: React.FC = () => {
     try {
       if (mode === ConversionMode.MD_TO_DOCX) {
         let content = sourceFile.content || "";
+        if (failOnLintErrors) {
+          const errors = lintMarkdown(content, images, docxOptions.disabledPlugins).filter(issue => issue.severity === 'error');
+          if (errors.length) {
+            errors.forEach(issue => addLog(describeLintIssue(content, issue), "error"));
+            addLog(`Conversion stopped: the pre-flight check found ${errors.length} error(s).`, "error");
+            setStatus(ConversionStatus.ERROR);
+            return;
+          }
+        }
         if (isAiEnabled) {
           setStatus(ConversionStatus.PARSING);
-          addLog("AI Polishing enabled. Thinking...", "info");
-          content = await polishMarkdown(content);
+          const polished = await polish(content);
+          if (polished === null) {
+            addLog("Conversion cancelled during review.", "warning");
+            setStatus(ConversionStatus.IDLE);
+            return;
+          }
+          content = polished;
         }
 
         setStatus(ConversionStatus.GENERATING);
         const imgBuffers = new Map<string, ArrayBuffer>();
         images.forEach((val, key) => { if (val.arrayBuffer) imgBuffers.set(key, val.arrayBuffer); });
         
-        const blob = await convertToDocx(content, imgBuffers, (msg, lvl) => addLog(msg, lvl));
+        const blob = await convertToDocx(content, imgBuffers, (msg, lvl) => addLog(msg, lvl), docxOptions, {
+          referenceDoc: referenceDoc?.arrayBuffer,
+          bibliography: bibliography?.content,
+        });
         downloadFile(blob, `${sourceFile.file.name.split('.')[0]}.docx`);
       } else {
         if (!sourceFile.arrayBuffer) throw new Error("File buffer missing.");
         
         setStatus(ConversionStatus.GENERATING);
-        let markdown = await convertDocxToMd(sourceFile.arrayBuffer, (msg, lvl) => addLog(msg, lvl));
+        const result = await convertDocxToMd(sourceFile.arrayBuffer, (msg, lvl) => addLog(msg, lvl), importOptions);
+        let markdown = result.markdown;
 
         if (isAiEnabled) {
           setStatus(ConversionStatus.PARSING);
-          addLog("AI Enhancing generated Markdown...", "info");
-          markdown = await polishMarkdown(markdown);
+          const polished = await polish(markdown);
+          if (polished === null) {
+            addLog("Conversion cancelled during review.", "warning");
+            setStatus(ConversionStatus.IDLE);
+            return;
+          }
+          markdown = polished;
         }
 
         setLastOutput(markdown);
-        const blob = new Blob([markdown], { type: 'text/markdown' });
-        downloadFile(blob, `${sourceFile.file.name.split('.')[0]}.md`);
+        if (result.images.size > 0) {
+          const bundle = await createMarkdownBundle(markdown, result.images);
+          downloadFile(bundle, `${sourceFile.file.name.split('.')[0]}.zip`);
+        } else {
+          const blob = new Blob([markdown], { type: 'text/markdown' });
+          downloadFile(blob, `${sourceFile.file.name.split('.')[0]}.md`);
+        }
       }
 
       setStatus(ConversionStatus.COMPLETED);
@@ -176,7 +575,11 @@ const App: React.FC = () => {
   };
 
   const reset = () => {
+    reviewResolver.current?.(null);
+    reviewResolver.current = null;
+    setPendingReview(null);
     setSourceFile(null);
+    setBatch(null);
     setImages(new Map());
     setLogs([]);
     setLastOutput(null);
@@ -210,10 +613,107 @@ const App: React.FC = () => {
              <Wand2 className={`w-4 h-4 ${isAiEnabled ? 'animate-pulse' : ''}`} />
              AI Polishing
            </button>
+           {isAiEnabled && (
+             <select
+               value={activePreset.id}
+               onChange={(e) => setPromptLibrary(prev => ({ ...prev, selectedId: e.target.value }))}
+               title="Prompt preset"
+               className="px-3 py-2 bg-white border border-purple-200 text-purple-700 rounded-full text-sm"
+             >
+               {allPresets(promptLibrary).map(preset => (
+                 <option key={preset.id} value={preset.id}>{preset.name}</option>
+               ))}
+             </select>
+           )}
            <button onClick={reset} className="p-2 text-slate-400 hover:text-red-500 rounded-lg"><Trash2 className="w-5 h-5" /></button>
         </div>
       </header>
 
+      {markdownSource !== undefined && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="glass border border-slate-200 rounded-2xl p-4 shadow-sm flex flex-col">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                <PenLine className="w-5 h-5 text-blue-500" />
+                Editor
+              </h2>
+              <button
+                onClick={downloadMarkdown}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg"
+              >
+                <Save className="w-4 h-4" /> Save .md
+              </button>
+            </div>
+            <div className="relative h-[560px] bg-white border border-slate-200 rounded-xl overflow-hidden">
+              <pre
+                ref={highlightRef}
+                aria-hidden
+                className="absolute inset-0 m-0 p-3 font-mono text-xs leading-5 whitespace-pre-wrap break-words text-transparent overflow-y-scroll pointer-events-none"
+              >
+                {highlightRanges(markdownSource, missingImages)}
+              </pre>
+              <textarea
+                ref={editorRef}
+                value={markdownSource}
+                onChange={(e) => updateMarkdown(e.target.value)}
+                onScroll={(e) => { if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop; }}
+                spellCheck={false}
+                placeholder="# Title"
+                className="absolute inset-0 w-full h-full p-3 font-mono text-xs leading-5 whitespace-pre-wrap break-words bg-transparent text-slate-800 resize-none outline-none overflow-y-scroll"
+              />
+            </div>
+            <div className="mt-3 text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <p className="flex items-center gap-1 font-medium text-slate-700">
+                  <ListChecks className="w-4 h-4" />
+                  Pre-flight check: {lintCounts.length
+                    ? lintCounts.map(([severity, count]) => `${count} ${severity === 'info' ? 'note' : severity}${count === 1 ? '' : 's'}`).join(', ')
+                    : 'no problems found'}
+                </p>
+                <label className="flex items-center gap-1 text-slate-500 cursor-pointer" title="Refuse to convert while the check reports errors">
+                  <input type="checkbox" checked={failOnLintErrors} onChange={(e) => setFailOnLintErrors(e.target.checked)} />
+                  Stop on errors
+                </label>
+              </div>
+              {lintIssues.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto space-y-0.5 custom-scrollbar">
+                  {lintIssues.map((issue, index) => (
+                    <li key={index}>
+                      <button
+                        onClick={() => selectInEditor(issue)}
+                        className="w-full flex items-start gap-1 px-2 py-0.5 text-left text-slate-600 rounded-md hover:bg-slate-100"
+                      >
+                        {LINT_SEVERITY_ICONS[issue.severity]}
+                        {describeLintIssue(markdownSource, issue)}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="glass border border-slate-200 rounded-2xl p-4 shadow-sm flex flex-col">
+            <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+              <Eye className="w-5 h-5 text-emerald-500" />
+              Word Preview
+            </h2>
+            <div className="h-[560px] overflow-y-auto bg-slate-100 border border-slate-200 rounded-xl p-4 custom-scrollbar">
+              <div className="bg-white shadow-sm px-8 py-10 min-h-full">
+                {preview
+                  ? <div dangerouslySetInnerHTML={{ __html: preview.html }} />
+                  : <p className="text-sm text-slate-400">Rendering preview...</p>}
+              </div>
+            </div>
+            {preview && preview.warnings.length > 0 && (
+              <ul className="mt-3 text-xs text-amber-700 space-y-0.5 max-h-24 overflow-y-auto">
+                {preview.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
         <div className="lg:col-span-7 space-y-6">
           <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
@@ -224,7 +724,8 @@ const App: React.FC = () => {
             <div className="relative group">
               <input 
                 type="file" 
-                accept={mode === ConversionMode.MD_TO_DOCX ? ".md,.markdown,.txt" : ".docx"} 
+                multiple
+                accept={mode === ConversionMode.MD_TO_DOCX ? ".md,.markdown,.txt,.zip" : ".docx,.zip"} 
                 onChange={handleFileUpload}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
               />
@@ -237,16 +738,79 @@ const App: React.FC = () => {
                     <p className="font-medium text-slate-800">{sourceFile.file.name}</p>
                     <p className="text-xs text-slate-400">File attached and ready</p>
                   </div>
+                ) : batch ? (
+                  <div className="flex flex-col items-center">
+                    <ListChecks className="w-10 h-10 text-blue-500 mb-2" />
+                    <p className="font-medium text-slate-800">{batch.items.length} documents queued</p>
+                    <p className="text-xs text-slate-400">Each is converted by its type; outputs download as one zip</p>
+                  </div>
                 ) : (
                   <div className="flex flex-col items-center text-slate-400">
                     <Download className="w-10 h-10 mb-2" />
-                    <p className="font-medium">Upload {mode === ConversionMode.MD_TO_DOCX ? "Markdown" : "Word document"}</p>
+                    <p className="font-medium">Upload {mode === ConversionMode.MD_TO_DOCX ? "Markdown or .zip bundle" : "Word document"}</p>
+                    <p className="text-xs">Several files or a zipped docs folder convert as a batch</p>
                   </div>
                 )}
               </div>
             </div>
+            {!sourceFile && (
+              <label className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl cursor-pointer">
+                <FolderOpen className="w-4 h-4" />
+                Convert a whole folder
+                <input type="file" webkitdirectory="" directory="" multiple onChange={handleFileUpload} className="hidden" />
+              </label>
+            )}
+            {mode === ConversionMode.MD_TO_DOCX && !sourceFile && !batch && (
+              <button
+                onClick={startWriting}
+                className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl"
+              >
+                <PenLine className="w-4 h-4" />
+                Or start writing in the editor
+              </button>
+            )}
           </div>
 
+          {batch && (
+            <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                  <ListChecks className="w-5 h-5 text-blue-500" />
+                  Batch Queue
+                </h2>
+                <button onClick={() => setBatch(null)} className="text-slate-400 hover:text-red-500" title="Clear the queue">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto text-sm">
+                {batch.items.map(item => (
+                  <li key={item.path} className="py-2">
+                    <div className="flex items-center gap-2">
+                      {BATCH_STATUS_ICONS[item.status]}
+                      <span className="flex-1 truncate font-mono text-xs text-slate-700" title={item.path}>{item.path}</span>
+                      <span className="text-[10px] uppercase text-slate-400">{item.kind === 'markdown' ? 'MD → Word' : 'Word → MD'}</span>
+                      {item.warnings.length > 0 && (
+                        <span className="text-xs text-amber-600">{item.warnings.length} warning(s)</span>
+                      )}
+                    </div>
+                    {(item.error || item.warnings.length > 0) && (
+                      <details className="ml-6 mt-1 text-xs">
+                        <summary className="cursor-pointer text-slate-400">Details</summary>
+                        <ul className="mt-1 space-y-0.5">
+                          {item.error && <li className="text-red-600">{item.error}</li>}
+                          {item.warnings.map((warning, index) => <li key={index} className="text-amber-700">{warning}</li>)}
+                        </ul>
+                      </details>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-3 text-xs text-slate-400">
+                Images are looked up relative to each document. The download keeps the folder layout and adds a conversion report.
+              </p>
+            </div>
+          )}
+
           {mode === ConversionMode.MD_TO_DOCX && (
             <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
               <div className="flex items-center justify-between mb-4">
@@ -291,17 +855,447 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {mode === ConversionMode.DOCX_TO_MD && (
+            <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <SlidersHorizontal className="w-5 h-5 text-slate-500" />
+                Word Import
+              </h2>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+                <label className="flex items-center gap-2">
+                  Comments
+                  <select
+                    value={wordOptions.comments}
+                    onChange={(e) => setWordOptions(prev => ({ ...prev, comments: e.target.value as CommentHandling }))}
+                    className="px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  >
+                    <option value="html">HTML comments</option>
+                    <option value="footnotes">Footnotes</option>
+                    <option value="drop">Drop</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Tracked changes
+                  <select
+                    value={wordOptions.trackedChanges}
+                    onChange={(e) => setWordOptions(prev => ({ ...prev, trackedChanges: e.target.value as TrackedChangeHandling }))}
+                    className="px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  >
+                    <option value="accept">Accept</option>
+                    <option value="markup">Show as CriticMarkup</option>
+                  </select>
+                </label>
+              </div>
+              <label className="block mt-4 text-sm text-slate-600">
+                Style map
+                <textarea
+                  value={wordOptions.styleMap.join('\n')}
+                  onChange={(e) => setWordOptions(prev => ({ ...prev, styleMap: e.target.value.split('\n') }))}
+                  placeholder="p[style-name='Memo'] => blockquote > p:fresh"
+                  rows={3}
+                  spellCheck={false}
+                  className="mt-1 w-full px-3 py-2 font-mono text-xs bg-white border border-slate-200 rounded-lg resize-y"
+                />
+              </label>
+              <p className="mt-3 text-xs text-slate-400">
+                One mammoth style mapping per line, for in-house paragraph and character styles; these take precedence over the built-in mappings. Styles without a mapping are listed in the log after converting.
+              </p>
+            </div>
+          )}
+
+          {mode === ConversionMode.MD_TO_DOCX && (
+            <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <Palette className="w-5 h-5 text-slate-500" />
+                Document Style
+              </h2>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+                <label className="flex items-center gap-2">
+                  Theme
+                  <select
+                    value={docxOptions.theme}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, theme: e.target.value as ThemeName }))}
+                    className="px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  >
+                    {(Object.keys(DOC_THEMES) as ThemeName[]).map(name => (
+                      <option key={name} value={name}>{DOC_THEMES[name].label}</option>
+                    ))}
+                  </select>
+                </label>
+                {([
+                  ['Reference .docx', '.docx', referenceDoc, setReferenceDoc, handleReferenceUpload],
+                  ['Bibliography', '.bib,.json', bibliography, setBibliography, handleBibliographyUpload],
+                ] as const).map(([label, accept, loaded, clear, onUpload]) => loaded ? (
+                  <span key={label} className="flex items-center gap-2 px-3 py-1 bg-blue-50 text-blue-700 rounded-lg border border-blue-100">
+                    <FileText className="w-4 h-4" />
+                    {loaded.file.name}
+                    <button onClick={() => clear(null)} title={`Remove ${label.toLowerCase()}`} className="hover:text-blue-900">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </span>
+                ) : (
+                  <label key={label} className="flex items-center gap-2 px-3 py-1 bg-slate-50 rounded-lg cursor-pointer hover:bg-slate-100 border border-slate-200">
+                    <FileText className="w-4 h-4" />
+                    {label}
+                    <input type="file" accept={accept} onChange={onUpload} className="hidden" />
+                  </label>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-slate-400">
+                A reference document supplies its own styles, fonts, page setup, headers and footers, like pandoc's <code>--reference-doc</code>; the theme fills in any style it lacks. A BibTeX or CSL-JSON bibliography resolves <code>[@key]</code> citations into a reference list.
+              </p>
+            </div>
+          )}
+
+          {mode === ConversionMode.MD_TO_DOCX && (
+            <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <BookOpen className="w-5 h-5 text-slate-500" />
+                Page Setup
+              </h2>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+                <label className="flex items-center gap-2">
+                  Paper
+                  <select
+                    value={docxOptions.pageSize}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, pageSize: e.target.value as PageSize }))}
+                    className="px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  >
+                    {Object.keys(PAGE_SIZES).map(size => <option key={size} value={size}>{size}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={docxOptions.titlePage}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, titlePage: e.target.checked }))}
+                  />
+                  Title page from front matter
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={docxOptions.toc}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, toc: e.target.checked }))}
+                  />
+                  Table of contents
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={docxOptions.numberedHeadings}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, numberedHeadings: e.target.checked }))}
+                  />
+                  Numbered headings
+                </label>
+                {(['header', 'footer'] as const).map(slot => (
+                  <label key={slot} className="flex items-center gap-2 capitalize">
+                    {slot}
+                    <select
+                      value={docxOptions[slot]}
+                      onChange={(e) => setDocxOptions(prev => ({ ...prev, [slot]: e.target.value as HeaderFooterContent }))}
+                      className="px-2 py-1 bg-white border border-slate-200 rounded-lg normal-case"
+                    >
+                      {(Object.keys(HEADER_FOOTER_LABELS) as HeaderFooterContent[]).map(content => (
+                        <option key={content} value={content}>{HEADER_FOOTER_LABELS[content]}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-slate-400">
+                Options set in the document's front matter (e.g. <code>page-size: Letter</code>, <code>toc: true</code>) take precedence. Insert <code>&lt;!-- pagebreak --&gt;</code> to start a new page.
+              </p>
+            </div>
+          )}
+
+          {mode === ConversionMode.MD_TO_DOCX && (
+            <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <SlidersHorizontal className="w-5 h-5 text-slate-500" />
+                Code Blocks
+              </h2>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+                <label className="flex items-center gap-2">
+                  Theme
+                  <select
+                    value={docxOptions.codeTheme}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, codeTheme: e.target.value as CodeTheme }))}
+                    className="px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  >
+                    <option value="light">Light</option>
+                    <option value="dark">Dark</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={docxOptions.codeLineNumbers}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, codeLineNumbers: e.target.checked }))}
+                  />
+                  Line numbers
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={docxOptions.codeLanguageCaption}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, codeLanguageCaption: e.target.checked }))}
+                  />
+                  Language caption
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={docxOptions.diagrams}
+                    onChange={(e) => setDocxOptions(prev => ({ ...prev, diagrams: e.target.checked }))}
+                  />
+                  Draw Mermaid / Graphviz diagrams
+                </label>
+              </div>
+            </div>
+          )}
+
+          <div className="glass border border-slate-200 rounded-2xl p-6 shadow-sm">
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Puzzle className="w-5 h-5 text-slate-500" />
+              Syntax Plugins
+            </h2>
+            <div className="space-y-2 text-sm text-slate-600">
+              {listPlugins().map(plugin => (
+                <label key={plugin.id} className={`flex items-start gap-2 ${plugin.required ? '' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={plugin.required || !docxOptions.disabledPlugins.includes(plugin.id)}
+                    disabled={plugin.required}
+                    onChange={(e) => togglePlugin(plugin.id, e.target.checked)}
+                  />
+                  <span>
+                    <span className="font-medium text-slate-700">{plugin.name}</span>
+                    <span className="block text-xs text-slate-400">{plugin.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-3 text-xs text-slate-400">
+              Switched-off syntax is left as plain text when converting to Word, and its Word styles are not mapped back to Markdown.
+            </p>
+          </div>
+
+          {isAiEnabled && (
+            <div className="glass border border-purple-200 rounded-2xl p-6 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <Wand2 className="w-5 h-5 text-purple-500" />
+                AI Provider
+              </h2>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+                <label className="flex items-center gap-2">
+                  Backend
+                  <select
+                    value={aiSettings.provider}
+                    onChange={(e) => {
+                      const provider = e.target.value as AIProviderKind;
+                      setAiSettings(prev => ({ ...prev, provider, model: AI_PROVIDERS[provider].defaultModel, endpoint: '' }));
+                    }}
+                    className="px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  >
+                    {(Object.keys(AI_PROVIDERS) as AIProviderKind[]).map(provider => (
+                      <option key={provider} value={provider}>{AI_PROVIDERS[provider].label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Model
+                  <input
+                    type="text"
+                    value={aiSettings.model}
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, model: e.target.value }))}
+                    className="w-44 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Temperature
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={aiSettings.temperature}
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+                    className="w-16 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Endpoint
+                  <input
+                    type="url"
+                    value={aiSettings.endpoint}
+                    placeholder={AI_PROVIDERS[aiSettings.provider].defaultEndpoint || 'Default'}
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, endpoint: e.target.value }))}
+                    className="w-56 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  API key
+                  <input
+                    type="password"
+                    value={aiSettings.apiKey}
+                    placeholder={aiSettings.provider === 'gemini' ? 'From GEMINI_API_KEY' : 'None'}
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, apiKey: e.target.value }))}
+                    className="w-44 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Chunk size
+                  <input
+                    type="number"
+                    min={500}
+                    step={500}
+                    value={aiSettings.maxChunkTokens}
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, maxChunkTokens: Math.max(500, Number(e.target.value) || 0) }))}
+                    className="w-20 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  />
+                  tokens
+                </label>
+                <label className="flex items-center gap-2">
+                  Parallel requests
+                  <input
+                    type="number"
+                    min={1}
+                    max={8}
+                    value={aiSettings.concurrency}
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, concurrency: Math.min(8, Math.max(1, Number(e.target.value) || 1)) }))}
+                    className="w-14 px-2 py-1 bg-white border border-slate-200 rounded-lg"
+                  />
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reviewAiEdits}
+                    onChange={(e) => setReviewAiEdits(e.target.checked)}
+                  />
+                  Review changes before converting
+                </label>
+              </div>
+              <p className="mt-3 text-xs text-slate-400">
+                Long documents are polished section by section; a chunk whose protected content comes back changed keeps its original text. The OpenAI-compatible backend works with any server offering <code>/chat/completions</code>, such as Ollama, LM Studio, vLLM or a local mock.
+              </p>
+            </div>
+          )}
+
+          {isAiEnabled && (
+            <div className="glass border border-purple-200 rounded-2xl p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                  <BookOpen className="w-5 h-5 text-purple-500" />
+                  Prompt Preset
+                </h2>
+                <div className="flex items-center gap-2 text-sm">
+                  <button
+                    onClick={duplicatePreset}
+                    className="flex items-center gap-1 px-3 py-1 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg"
+                  >
+                    <Plus className="w-4 h-4" /> {activePreset.builtIn ? 'Duplicate to edit' : 'Duplicate'}
+                  </button>
+                  {!activePreset.builtIn && (
+                    <button
+                      onClick={deletePreset}
+                      className="flex items-center gap-1 px-3 py-1 bg-white border border-slate-200 hover:border-red-200 hover:text-red-600 text-slate-700 rounded-lg"
+                    >
+                      <Trash2 className="w-4 h-4" /> Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-3 text-sm text-slate-600">
+                <label className="flex items-center gap-2">
+                  Name
+                  <input
+                    type="text"
+                    value={activePreset.name}
+                    readOnly={activePreset.builtIn}
+                    onChange={(e) => updatePreset({ name: e.target.value })}
+                    className="flex-1 px-2 py-1 bg-white border border-slate-200 rounded-lg read-only:bg-slate-50"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Result
+                  <select
+                    value={activePreset.mode}
+                    disabled={activePreset.builtIn}
+                    onChange={(e) => updatePreset({ mode: e.target.value as PromptMode })}
+                    className="px-2 py-1 bg-white border border-slate-200 rounded-lg disabled:bg-slate-50"
+                  >
+                    <option value="rewrite">The document, rewritten</option>
+                    <option value="summarize">A summary of the whole document</option>
+                  </select>
+                </label>
+                <textarea
+                  value={activePreset.template}
+                  readOnly={activePreset.builtIn}
+                  onChange={(e) => updatePreset({ template: e.target.value })}
+                  rows={8}
+                  spellCheck={false}
+                  className="w-full px-3 py-2 font-mono text-xs bg-white border border-slate-200 rounded-lg read-only:bg-slate-50"
+                />
+                <div className="flex flex-wrap items-center gap-4">
+                  <span>Must come back unchanged:</span>
+                  {(Object.keys(PROTECTED_CONTENT_LABELS) as ProtectedContent[]).map(kind => (
+                    <label key={kind} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={activePreset.protect.includes(kind)}
+                        disabled={activePreset.builtIn}
+                        onChange={(e) => updatePreset({
+                          protect: e.target.checked
+                            ? [...activePreset.protect, kind]
+                            : activePreset.protect.filter(other => other !== kind),
+                        })}
+                      />
+                      {PROTECTED_CONTENT_LABELS[kind]}
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2">
+                  Part note
+                  <input
+                    type="text"
+                    value={activePreset.partNote}
+                    readOnly={activePreset.builtIn}
+                    onChange={(e) => updatePreset({ partNote: e.target.value })}
+                    className="flex-1 px-2 py-1 font-mono text-xs bg-white border border-slate-200 rounded-lg read-only:bg-slate-50"
+                  />
+                </label>
+                {usesVariable(activePreset.template, 'glossary') && (
+                  <label className="block">
+                    Glossary
+                    <textarea
+                      value={promptLibrary.glossary}
+                      onChange={(e) => setPromptLibrary(prev => ({ ...prev, glossary: e.target.value }))}
+                      rows={4}
+                      placeholder={'One term per line, e.g.\n登陆 => 登录\nmachine learning => 机器学习'}
+                      className="mt-1 w-full px-3 py-2 font-mono text-xs bg-white border border-slate-200 rounded-lg"
+                    />
+                  </label>
+                )}
+              </div>
+              <p className="mt-3 text-xs text-slate-400">
+                Templates may use <code>{'{{content}}'}</code> for the Markdown (one chunk of it for long documents), <code>{'{{glossary}}'}</code> for the term list and <code>{'{{part}}'}</code> for the part note, which says which chunk the model sees; without <code>{'{{content}}'}</code> the Markdown is added at the end. A summary's chunks are condensed separately and then merged into one result. Custom presets and the glossary are saved in this browser.
+              </p>
+            </div>
+          )}
+
           <button
             onClick={startConversion}
-            disabled={!sourceFile || status === ConversionStatus.GENERATING}
+            disabled={(!sourceFile && !batch) || status === ConversionStatus.GENERATING || status === ConversionStatus.REVIEWING}
             className={`w-full py-4 rounded-2xl font-bold text-lg flex items-center justify-center gap-3 transition-all ${
-              !sourceFile || status === ConversionStatus.GENERATING 
+              (!sourceFile && !batch) || status === ConversionStatus.GENERATING || status === ConversionStatus.REVIEWING
               ? 'bg-slate-200 text-slate-400 shadow-none' 
               : 'bg-gradient-to-r from-slate-800 to-slate-900 text-white shadow-xl hover:-translate-y-0.5'
             }`}
           >
             {status === ConversionStatus.GENERATING ? <Loader2 className="w-6 h-6 animate-spin" /> : <Download className="w-6 h-6" />}
-            {mode === ConversionMode.MD_TO_DOCX ? "Convert to Word" : "Convert to Markdown"}
+            {batch ? `Convert ${batch.items.length} Documents` : mode === ConversionMode.MD_TO_DOCX ? "Convert to Word" : "Convert to Markdown"}
           </button>
         </div>
 
@@ -325,8 +1319,8 @@ const App: React.FC = () => {
             <div className="flex-1 overflow-y-auto space-y-1.5 pr-2 custom-scrollbar">
               {logs.length === 0 ? (
                 <div className="h-full flex flex-col items-center justify-center opacity-30 text-slate-500 font-mono text-xs italic">
-                  <span>> pipeline_idle</span>
-                  <span>> waiting_for_input</span>
+                  <span>{'>'} pipeline_idle</span>
+                  <span>{'>'} waiting_for_input</span>
                 </div>
               ) : (
                 logs.map(log => (
@@ -343,6 +1337,98 @@ const App: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {pendingReview && (
+        <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+            <div className="flex flex-wrap items-center justify-between gap-3 p-5 border-b border-slate-200">
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                <GitCompare className="w-5 h-5 text-purple-500" />
+                Review AI Changes
+                <span className="text-xs font-medium text-slate-400 bg-slate-100 px-2 py-1 rounded-md">
+                  {pendingReview.accepted.size} / {pendingReview.review.hunks.length} accepted
+                </span>
+              </h2>
+              <div className="flex items-center gap-2 text-sm">
+                <button
+                  onClick={() => setPendingReview(prev => prev && { ...prev, accepted: new Set(prev.review.hunks.map(hunk => hunk.id)) })}
+                  className="px-3 py-1 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg"
+                >
+                  Accept all
+                </button>
+                <button
+                  onClick={() => setPendingReview(prev => prev && { ...prev, accepted: new Set() })}
+                  className="px-3 py-1 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg"
+                >
+                  Reject all
+                </button>
+                <button
+                  onClick={downloadReviewPatch}
+                  className="flex items-center gap-1.5 px-3 py-1 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg"
+                >
+                  <FileDiff className="w-4 h-4" />
+                  Save patch
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5 space-y-2 font-mono text-xs custom-scrollbar">
+              {pendingReview.review.segments.map((segment, index) => {
+                if (segment.type === 'same') {
+                  const { lines } = segment;
+                  const head = index === 0 ? [] : lines.slice(0, REVIEW_CONTEXT_LINES);
+                  const tail = index === pendingReview.review.segments.length - 1 ? [] : lines.slice(-REVIEW_CONTEXT_LINES);
+                  const hidden = lines.length - head.length - tail.length;
+                  const shown = hidden > 0 ? [...head, null, ...tail] : lines;
+                  return (
+                    <div key={index} className="text-slate-400 whitespace-pre-wrap px-2">
+                      {shown.map((line, lineIndex) => line === null
+                        ? <div key={lineIndex} className="italic py-1">⋯ {hidden} unchanged line(s)</div>
+                        : <div key={lineIndex}>{line || ' '}</div>)}
+                    </div>
+                  );
+                }
+
+                const { hunk } = segment;
+                const accepted = pendingReview.accepted.has(hunk.id);
+                const side = (type: 'delete' | 'insert') => pendingReview.words[hunk.id]
+                  .filter(part => part.type === 'equal' || part.type === type)
+                  .map((part, partIndex) => part.type === 'equal'
+                    ? <span key={partIndex}>{part.items.join('')}</span>
+                    : <mark key={partIndex} className={type === 'delete' ? 'bg-red-200 text-red-900 line-through' : 'bg-emerald-200 text-emerald-900'}>{part.items.join('')}</mark>);
+                return (
+                  <div key={index} className={`border rounded-lg overflow-hidden ${accepted ? 'border-emerald-300' : 'border-slate-200'}`}>
+                    <label className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 border-b border-slate-200 font-sans text-slate-600 cursor-pointer">
+                      <input type="checkbox" checked={accepted} onChange={() => toggleHunk(hunk.id)} />
+                      Change {hunk.id + 1}: {accepted ? 'accepted' : 'rejected'}
+                    </label>
+                    <div className="grid grid-cols-2 divide-x divide-slate-200">
+                      <div className={`p-2 whitespace-pre-wrap ${accepted ? 'bg-red-50/60 text-slate-500' : 'bg-white text-slate-800'}`}>
+                        {hunk.removed.length ? side('delete') : <span className="italic text-slate-400">(nothing)</span>}
+                      </div>
+                      <div className={`p-2 whitespace-pre-wrap ${accepted ? 'bg-emerald-50/60 text-slate-800' : 'bg-white text-slate-400'}`}>
+                        {hunk.added.length ? side('insert') : <span className="italic text-slate-400">(removed)</span>}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center justify-end gap-3 p-5 border-t border-slate-200">
+              <button onClick={() => finishReview(false)} className="px-4 py-2 text-slate-600 hover:text-red-600 rounded-xl">
+                Cancel conversion
+              </button>
+              <button
+                onClick={() => finishReview(true)}
+                className="px-5 py-2 bg-gradient-to-r from-slate-800 to-slate-900 text-white rounded-xl font-semibold shadow-lg"
+              >
+                Continue with accepted changes
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,262 @@
+import { parseArgs } from 'node:util';
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { markdownToDocx, docxToMarkdown } from '../services/conversionApi';
+import { findImageReferences } from '../services/markdownPreview';
+import { splitFrontMatter } from '../services/frontMatter';
+import { documentImageDir } from '../services/batchConverter';
+import { BUNDLE_IMAGE_DIR } from '../services/markdownBundle';
+import { DOC_THEMES } from '../services/docThemes';
+import { listPlugins } from '../services/rendererPlugins';
+import { ConversionLog, DocxOptions, ThemeName, WordImportOptions, CommentHandling, TrackedChangeHandling } from '../types';
+
+const USAGE = `Usage: md2word <input...> [options]
+
+Converts Markdown to Word and Word to Markdown; each input's extension decides
+which way. Inputs may be files, folders (searched for .md and .docx) or globs
+such as "docs/**/*.md".
+
+Options:
+  -o, --output <path>       Output file, or the output folder for several inputs
+  --assets <dir>            Also look for images here (may be repeated)
+  --template <file.docx>    Reference document for styles, page setup, headers and footers
+  --bibliography <file>     BibTeX or CSL-JSON file that citations resolve against
+  --theme <name>            ${Object.keys(DOC_THEMES).join(', ')}
+  --extract-media           Write the images of Word inputs next to the Markdown
+  --media-dir <dir>         Folder for extracted images (default: ${BUNDLE_IMAGE_DIR})
+  --comments <mode>         Word comments as html comments, footnotes, or drop them (default: html)
+  --track-changes <mode>    accept tracked changes, or markup them as CriticMarkup (default: accept)
+  --style-map <file>        Extra mammoth style mappings, one per line
+  --disable <plugin>        Switch off a syntax plugin (may be repeated): ${listPlugins().filter(plugin => !plugin.required).map(plugin => plugin.id).join(', ')}
+  --allow-missing-images    Do not fail on broken image links
+  -q, --quiet               Only print warnings and errors
+  -h, --help                Show this help
+
+Exit codes: 0 success, 1 a conversion failed, 2 bad usage, 3 broken image links.`;
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_MISSING_IMAGES = 3;
+
+const COMMENT_MODES: CommentHandling[] = ['html', 'footnotes', 'drop'];
+const CHANGE_MODES: TrackedChangeHandling[] = ['accept', 'markup'];
+
+const DOCUMENT_EXTENSION = /\.(md|markdown|docx)$/i;
+const GLOB_CHARS = /[*?[]/;
+
+class UsageError extends Error {}
+
+interface Input {
+  file: string;
+  // Folder the input was found under; its layout is kept below --output
+  base: string;
+}
+
+const toBuffer = (data: Buffer): ArrayBuffer => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+
+const walk = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') return [];
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : [full];
+  });
+
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no folder at all
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else source += char.replace(/[.+^${}()|\\\]]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Shells expand globs before we see them, but not on Windows or when quoted
+const expandInputs = (patterns: string[]): Input[] => {
+  const inputs: Input[] = [];
+  for (const pattern of patterns) {
+    if (GLOB_CHARS.test(pattern)) {
+      const normalized = pattern.split(path.sep).join('/');
+      const parts = normalized.split('/');
+      const staticParts = parts.slice(0, parts.findIndex(part => GLOB_CHARS.test(part)));
+      const base = staticParts.join('/') || '.';
+      const matcher = globToRegExp(normalized.replace(/^\.\//, ''));
+      const matches = existsSync(base)
+        ? walk(base).filter(file => matcher.test(file.split(path.sep).join('/').replace(/^\.\//, '')))
+        : [];
+      if (!matches.length) throw new UsageError(`No files match ${pattern}.`);
+      inputs.push(...matches.map(file => ({ file, base })));
+    } else if (!existsSync(pattern)) {
+      throw new UsageError(`${pattern} does not exist.`);
+    } else if (statSync(pattern).isDirectory()) {
+      inputs.push(...walk(pattern).filter(file => DOCUMENT_EXTENSION.test(file)).map(file => ({ file, base: pattern })));
+    } else {
+      inputs.push({ file: pattern, base: path.dirname(pattern) });
+    }
+  }
+  return inputs.filter(input => {
+    if (DOCUMENT_EXTENSION.test(input.file)) return true;
+    console.error(`Skipping ${input.file}: not a .md or .docx file.`);
+    return false;
+  });
+};
+
+const outputPathFor = (input: Input, output: string | undefined, several: boolean): string => {
+  const extension = /\.docx$/i.test(input.file) ? '.md' : '.docx';
+  if (output && !several && !(existsSync(output) && statSync(output).isDirectory())) return output;
+  const relative = output ? path.relative(several ? input.base : path.dirname(input.file), input.file) : input.file;
+  return path.join(output || '', relative).replace(/\.[^./\\]+$/, extension);
+};
+
+// Every file the Markdown links to, found next to it or in an --assets folder and
+// keyed by the link text, so the converter matches each one exactly
+const readLinkedFiles = (markdown: string, file: string, assetDirs: string[]): Map<string, ArrayBuffer> => {
+  const { data } = splitFrontMatter(markdown);
+  const links = findImageReferences(markdown).map(reference => reference.href);
+  if (typeof data?.bibliography === 'string') links.push(data.bibliography);
+
+  const assets = new Map<string, ArrayBuffer>();
+  for (const link of new Set(links)) {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(link)) continue;
+    let target = link.replace(/[?#].*$/, '');
+    try {
+      target = decodeURI(target);
+    } catch {
+      // Stray % signs: use the link as written
+    }
+    const candidates = [
+      path.resolve(path.dirname(file), target),
+      ...assetDirs.flatMap(dir => [path.resolve(dir, target), path.resolve(dir, path.basename(target))]),
+    ];
+    const found = candidates.find(candidate => existsSync(candidate) && statSync(candidate).isFile());
+    if (found) assets.set(link, toBuffer(readFileSync(found)));
+  }
+  return assets;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      assets: { type: 'string', multiple: true },
+      template: { type: 'string' },
+      bibliography: { type: 'string' },
+      theme: { type: 'string' },
+      'extract-media': { type: 'boolean' },
+      'media-dir': { type: 'string' },
+      comments: { type: 'string' },
+      'track-changes': { type: 'string' },
+      'style-map': { type: 'string' },
+      disable: { type: 'string', multiple: true },
+      'allow-missing-images': { type: 'boolean' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!positionals.length) throw new UsageError('No input files given.');
+  if (values.theme && !(values.theme in DOC_THEMES)) throw new UsageError(`Unknown theme "${values.theme}".`);
+  if (values.comments && !COMMENT_MODES.includes(values.comments as CommentHandling)) {
+    throw new UsageError(`--comments must be one of ${COMMENT_MODES.join(', ')}.`);
+  }
+  if (values['track-changes'] && !CHANGE_MODES.includes(values['track-changes'] as TrackedChangeHandling)) {
+    throw new UsageError(`--track-changes must be one of ${CHANGE_MODES.join(', ')}.`);
+  }
+
+  const disabledPlugins = values.disable || [];
+  const unknown = disabledPlugins.find(id => !listPlugins().some(plugin => plugin.id === id && !plugin.required));
+  if (unknown) throw new UsageError(`No plugin "${unknown}" can be switched off.`);
+
+  const inputs = expandInputs(positionals);
+  if (!inputs.length) throw new UsageError('No .md or .docx inputs to convert.');
+  const several = inputs.length > 1;
+  if (several && values.output && DOCUMENT_EXTENSION.test(values.output)) {
+    throw new UsageError('With several inputs, --output must be a folder.');
+  }
+
+  const options: Partial<DocxOptions> = { ...(values.theme ? { theme: values.theme as ThemeName } : {}), disabledPlugins };
+  const referenceDoc = values.template ? toBuffer(readFileSync(values.template)) : undefined;
+  const bibliography = values.bibliography ? readFileSync(values.bibliography, 'utf8') : undefined;
+  const assetDirs = values.assets || [];
+  const wordOptions: Partial<WordImportOptions> = {
+    ...(values.comments ? { comments: values.comments as CommentHandling } : {}),
+    ...(values['track-changes'] ? { trackedChanges: values['track-changes'] as TrackedChangeHandling } : {}),
+    styleMap: values['style-map'] ? readFileSync(values['style-map'], 'utf8').split(/\r?\n/) : [],
+    disabledPlugins,
+  };
+
+  let failed = 0;
+  let missing = 0;
+  for (const input of inputs) {
+    const outputPath = outputPathFor(input, values.output, several);
+    const print = (log: ConversionLog) => {
+      if (values.quiet && (log.level === 'info' || log.level === 'success')) return;
+      console.error(`${input.file}: [${log.level}] ${log.message}`);
+    };
+
+    try {
+      mkdirSync(path.dirname(outputPath), { recursive: true });
+      if (/\.docx$/i.test(input.file)) {
+        const imageDir = values['media-dir'] || (several ? documentImageDir(input.file) : BUNDLE_IMAGE_DIR);
+        const result = await docxToMarkdown({
+          docx: toBuffer(readFileSync(input.file)),
+          options: { ...wordOptions, imageDir },
+          onLog: print,
+        });
+        writeFileSync(outputPath, result.markdown);
+        if (values['extract-media']) {
+          result.images.forEach((data, imagePath) => {
+            const target = path.join(path.dirname(outputPath), imagePath);
+            mkdirSync(path.dirname(target), { recursive: true });
+            writeFileSync(target, Buffer.from(data));
+          });
+        } else if (result.images.size) {
+          print({ level: 'warning', message: `${result.images.size} image(s) not written; pass --extract-media to keep them.` });
+        }
+      } else {
+        const markdown = readFileSync(input.file, 'utf8');
+        const result = await markdownToDocx({
+          markdown,
+          assets: readLinkedFiles(markdown, input.file, assetDirs),
+          options,
+          referenceDoc,
+          bibliography,
+          onLog: print,
+        });
+        writeFileSync(outputPath, Buffer.from(result.docx));
+        missing += result.missingImages.length;
+      }
+      if (!values.quiet) console.error(`${input.file} -> ${outputPath}`);
+    } catch (error) {
+      failed++;
+      console.error(`${input.file}: [error] ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (several) console.error(`${inputs.length - failed} of ${inputs.length} document(s) converted.`);
+  if (failed) return EXIT_FAILED;
+  if (missing && !values['allow-missing-images']) {
+    console.error(`${missing} broken image link(s); pass --allow-missing-images to accept them.`);
+    return EXIT_MISSING_IMAGES;
+  }
+  return 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    const usage = error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS');
+    console.error(usage ? `md2word: ${error.message}\n\n${USAGE}` : error);
+    process.exit(usage ? EXIT_USAGE : EXIT_FAILED);
+  }
+);
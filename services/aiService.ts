@@ -1,35 +1,212 @@
+import { GoogleGenAI, ApiError } from "@google/genai";
+import { AIProviderKind, AISettings } from '../types';
+import { splitFrontMatter } from './frontMatter';
+import { splitMarkdownIntoChunks, findAlteredContent, MarkdownChunk } from './markdownChunks';
+import { PromptPreset, renderPrompt, partNote, MERGE_NOTE } from './promptPresets';
 
-import { GoogleGenAI } from "@google/genai";
-
-export const polishMarkdown = async (content: string): Promise<string> => {
-  try {
-    // Create a new GoogleGenAI instance right before the call to ensure the latest API key is used
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    // Use gemini-3-pro-preview for complex text tasks such as technical document organization
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `你是一位专业的文档整理专家。请将提供的内容整理为 Markdown 文档，并严格遵守以下要求：
-
-- 禁止生成 base64 或 data:image 格式的图片
-- 不内嵌任何图片二进制内容
-- 所有图片仅以 Markdown 图片路径形式表示，例如：![](images/figure_x.png)
-- 对于 Word 中的图表、流程图、可视化结果，只保留图片占位引用
-- 如果图片无法直接引用，请用【图 X：内容描述】的文字说明代替
-- 彻底清除所有冗余的反斜杠转义字符（如 p\_value 应为 p_value，print\( 应为 print(）
-- 确保代码块（Python/Data Science）被正确包裹在 \`\`\`python 中
-- 保持 Markdown 结构清晰，适合后续转换为 Word / PDF / LaTeX
-
-请只输出 Markdown 源文本，不附加任何解释说明或开场白。
-
-待处理内容如下：
-${content}`,
-    });
-    
-    // Access the generated text content directly using the .text property
-    return response.text || content;
-  } catch (error) {
-    console.error("AI Polishing failed:", error);
-    return content;
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: 'gemini-3-pro-preview',
+  temperature: 0.2,
+  endpoint: '',
+  apiKey: '',
+  maxChunkTokens: 4000,
+  concurrency: 2,
+};
+
+// What each backend is called in the UI, and where an empty endpoint points
+export const AI_PROVIDERS: Record<AIProviderKind, { label: string; defaultModel: string; defaultEndpoint: string }> = {
+  gemini: { label: 'Google Gemini', defaultModel: 'gemini-3-pro-preview', defaultEndpoint: '' },
+  openai: { label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini', defaultEndpoint: 'http://localhost:11434/v1' },
+};
+
+export type AIErrorKind = 'config' | 'network' | 'auth' | 'rate-limit' | 'request' | 'empty-response' | 'altered-content';
+
+/** A failed AI request, classified so the UI can say what went wrong. */
+export class AIProviderError extends Error {
+  constructor(
+    readonly kind: AIErrorKind,
+    readonly provider: string,
+    message: string,
+    readonly status?: number
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'AIProviderError';
+  }
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(prompt: string): Promise<string>;
+}
+
+const errorKindForStatus = (status: number): AIErrorKind =>
+  status === 401 || status === 403 ? 'auth' : status === 429 ? 'rate-limit' : 'request';
+
+const createGeminiProvider = (settings: AISettings): AIProvider => {
+  const name = AI_PROVIDERS.gemini.label;
+  return {
+    name,
+    model: settings.model,
+    generate: async (prompt) => {
+      // The key typed into the UI wins over the one baked in at build time
+      const apiKey = settings.apiKey || process.env.API_KEY;
+      if (!apiKey) throw new AIProviderError('config', name, 'no API key is configured.');
+
+      const ai = new GoogleGenAI({ apiKey, httpOptions: settings.endpoint ? { baseUrl: settings.endpoint } : undefined });
+      let text: string | undefined;
+      try {
+        const response = await ai.models.generateContent({
+          model: settings.model,
+          contents: prompt,
+          config: { temperature: settings.temperature },
+        });
+        text = response.text;
+      } catch (error) {
+        if (error instanceof ApiError) throw new AIProviderError(errorKindForStatus(error.status), name, error.message, error.status);
+        throw new AIProviderError('network', name, error instanceof Error ? error.message : String(error));
+      }
+      if (!text?.trim()) throw new AIProviderError('empty-response', name, 'the model returned no text.');
+      return text;
+    },
+  };
+};
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama,
+// LM Studio, vLLM, llama.cpp or a local mock
+const createOpenAICompatibleProvider = (settings: AISettings): AIProvider => {
+  const name = AI_PROVIDERS.openai.label;
+  const endpoint = (settings.endpoint || AI_PROVIDERS.openai.defaultEndpoint).replace(/\/+$/, '');
+  return {
+    name,
+    model: settings.model,
+    generate: async (prompt) => {
+      let response: Response;
+      try {
+        response = await fetch(`${endpoint}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            temperature: settings.temperature,
+            messages: [{ role: 'user', content: prompt }],
+          }),
+        });
+      } catch (error) {
+        throw new AIProviderError('network', name, `could not reach ${endpoint} (${error instanceof Error ? error.message : String(error)}).`);
+      }
+
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        const detail = body?.error?.message || body?.error || response.statusText;
+        throw new AIProviderError(errorKindForStatus(response.status), name, `HTTP ${response.status}${detail ? ` - ${detail}` : ''}.`, response.status);
+      }
+      const text = body?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || !text.trim()) throw new AIProviderError('empty-response', name, 'the model returned no text.');
+      return text;
+    },
+  };
+};
+
+export const createAIProvider = (settings: AISettings): AIProvider => {
+  if (!settings.model.trim()) throw new AIProviderError('config', AI_PROVIDERS[settings.provider].label, 'no model is selected.');
+  return settings.provider === 'openai' ? createOpenAICompatibleProvider(settings) : createGeminiProvider(settings);
+};
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+// Authentication and configuration problems would fail every attempt the same way
+const RETRYABLE_ERRORS: AIErrorKind[] = ['network', 'rate-limit', 'request', 'empty-response', 'altered-content'];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Models like to wrap their whole answer in a ```markdown fence
+const unwrapMarkdownFence = (text: string) =>
+  text.match(/^\s*(`{3,})(?:markdown|md)\s*\n([\s\S]*?)\n\1\s*$/i)?.[2] ?? text;
+
+export interface PolishOptions {
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void;
+  preset: PromptPreset;
+  glossary: string;
+  maxChunkTokens: number;
+  concurrency: number;
+}
+
+/**
+ * Runs Markdown through the given provider with a prompt preset. Long documents
+ * are split along their sections and sent a few chunks at a time. A rewriting
+ * chunk that keeps failing, or whose protected content (code, images, tables, as
+ * the preset says) comes back changed, keeps its original text; a summary needs
+ * every part, so there a failing chunk fails the whole run, and the notes of the
+ * parts are merged into one result at the end. Throws an AIProviderError when the
+ * provider cannot be used at all.
+ */
+export const polishMarkdown = async (content: string, provider: AIProvider, options: PolishOptions): Promise<string> => {
+  const { onLog, preset } = options;
+  const summarize = preset.mode === 'summarize';
+  // Front matter is data, not prose, so the model never sees it
+  const { body } = splitFrontMatter(content);
+  const frontMatter = content.slice(0, content.length - body.length);
+  const chunks = splitMarkdownIntoChunks(body, options.maxChunkTokens);
+  if (chunks.length > 1) onLog(`Document split into ${chunks.length} chunks for ${summarize ? 'summarizing' : 'polishing'}.`, "info");
+
+  // Sends one prompt until it succeeds; the last error is thrown once the attempts run out
+  const generate = async (label: string, prompt: string, original: string): Promise<string> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = unwrapMarkdownFence(await provider.generate(prompt)).trim();
+        const altered = findAlteredContent(original, result, preset.protect);
+        if (altered.length) throw new AIProviderError('altered-content', provider.name, `the model changed ${altered.join(', ')}.`);
+        onLog(`${label} ${summarize ? 'summarized' : 'polished'}.`, "success");
+        return result;
+      } catch (error) {
+        if (!(error instanceof AIProviderError) || !RETRYABLE_ERRORS.includes(error.kind) || attempt >= MAX_ATTEMPTS) throw error;
+        const wait = RETRY_DELAY_MS * 2 ** (attempt - 1);
+        onLog(`${label} failed (${error.kind}): ${error.message} Retrying in ${wait / 1000}s...`, "warning");
+        await delay(wait);
+      }
+    }
+  };
+
+  const polishChunk = async (chunk: MarkdownChunk, index: number): Promise<string> => {
+    const label = chunks.length > 1 ? `Chunk ${index + 1}/${chunks.length}` : 'Document';
+    const part = chunks.length > 1 ? partNote(preset, index, chunks.length) : undefined;
+    const prompt = renderPrompt(preset.template, { content: chunk.text, glossary: options.glossary, part });
+    try {
+      return await generate(label, prompt, chunk.text);
+    } catch (error) {
+      if (summarize || !(error instanceof AIProviderError) || !RETRYABLE_ERRORS.includes(error.kind)) throw error;
+      onLog(`${label} failed ${MAX_ATTEMPTS} times (${error.message}); keeping its original text.`, "warning");
+      return chunk.text;
+    }
+  };
+
+  // A small pool of workers takes chunks in order; results keep their slots
+  const results: string[] = new Array(chunks.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (next < chunks.length && !failed) {
+      const index = next++;
+      onLog(`${summarize ? 'Summarizing' : 'Polishing'} ${chunks.length > 1 ? `chunk ${index + 1}/${chunks.length}` : 'document'} (~${chunks[index].tokens} tokens)...`, "info");
+      try {
+        results[index] = await polishChunk(chunks[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, chunks.length)) }, worker));
+
+  let output = results.join('\n\n');
+  if (summarize && results.length > 1) {
+    onLog(`Merging the notes of ${results.length} chunks into one summary...`, "info");
+    output = await generate('Summary', renderPrompt(preset.template, { content: output, glossary: options.glossary, part: MERGE_NOTE }), output);
   }
+  return (frontMatter ? `${frontMatter}\n` : '') + output + '\n';
 };
@@ -0,0 +1,209 @@
+import JSZip from 'jszip';
+import { convertToDocx } from './docxConverter';
+import { convertDocxToMd } from './mdConverter';
+import { lintMarkdown, describeLintIssue } from './documentLint';
+import { BUNDLE_IMAGE_DIR } from './markdownBundle';
+import { DocxOptions, DocxResources, WordImportOptions } from '../types';
+
+// Converts a whole docs tree at once. Files and zip archives are flattened into
+// one set of paths; every Markdown or Word document in it is converted in the
+// direction its type calls for, with images looked up relative to the document,
+// and the results are zipped back up in the same folder layout.
+
+export type BatchKind = 'markdown' | 'docx';
+export type BatchStatus = 'queued' | 'converting' | 'done' | 'failed';
+
+export interface BatchDocument {
+  path: string;
+  kind: BatchKind;
+  data: ArrayBuffer;
+}
+
+export interface BatchInput {
+  documents: BatchDocument[];
+  // Every other file, keyed by its path in the tree
+  assets: Map<string, ArrayBuffer>;
+}
+
+export interface BatchItem {
+  path: string;
+  kind: BatchKind;
+  status: BatchStatus;
+  outputPath?: string;
+  warnings: string[];
+  error?: string;
+}
+
+export const BATCH_REPORT_NAME = 'conversion-report.md';
+
+const DOCUMENT_KINDS: [RegExp, BatchKind][] = [
+  [/\.(md|markdown)$/i, 'markdown'],
+  [/\.docx$/i, 'docx'],
+];
+
+// Finder and Office leave these lying around in folders and archives
+const IGNORED_PATH = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|~\$)/;
+
+const documentKind = (path: string): BatchKind | undefined => DOCUMENT_KINDS.find(([pattern]) => pattern.test(path))?.[1];
+
+const directoryOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+
+// `notes.md` and `notes.markdown` would both become `notes.docx`; the later one is numbered
+const uniquePath = (path: string, taken: Set<string>): string => {
+  let candidate = path;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = path.replace(/(\.[^./]+)?$/, `-${n}$1`);
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Where a Word document's images go when it shares a folder with other documents:
+ * a folder of its own, named so the path survives in a Markdown link unescaped.
+ */
+export const documentImageDir = (documentPath: string) =>
+  `${BUNDLE_IMAGE_DIR}/${baseName(documentPath).replace(/[^\p{L}\p{N}_.-]+/gu, '-')}`;
+
+// `to` as written from a file in `fromDirectory`, e.g. `../images/a.png`
+const relativePath = (fromDirectory: string, to: string): string => {
+  const from = fromDirectory.split('/').filter(Boolean);
+  const target = to.split('/');
+  let common = 0;
+  while (common < from.length && common < target.length - 1 && from[common] === target[common]) common++;
+  return [...from.slice(common).map(() => '..'), ...target.slice(common)].join('/');
+};
+
+/**
+ * Flattens uploaded files into one tree. A zip archive is unpacked in place, so
+ * `docs.zip` holding `guide/intro.md` yields `guide/intro.md`; zips are only
+ * opened one level deep.
+ */
+export const readBatchInput = async (files: { path: string; data: ArrayBuffer }[]): Promise<BatchInput> => {
+  const entries = new Map<string, ArrayBuffer>();
+  for (const file of files) {
+    if (!/\.zip$/i.test(file.path)) {
+      entries.set(file.path, file.data);
+      continue;
+    }
+    const zip = await JSZip.loadAsync(file.data);
+    const prefix = directoryOf(file.path);
+    for (const entry of Object.values(zip.files)) {
+      if (!entry.dir) entries.set(prefix + entry.name, await entry.async('arraybuffer'));
+    }
+  }
+
+  const documents: BatchDocument[] = [];
+  const assets = new Map<string, ArrayBuffer>();
+  entries.forEach((data, path) => {
+    if (IGNORED_PATH.test(path)) return;
+    const kind = documentKind(path);
+    if (kind) documents.push({ path, kind, data });
+    else assets.set(path, data);
+  });
+  documents.sort((a, b) => a.path.localeCompare(b.path));
+  return { documents, assets };
+};
+
+/**
+ * The tree's files keyed by their path relative to a document, so references like
+ * `images/a.png` or `../shared/b.png` match exactly. Nearer files come first, which
+ * is where the converter's file-name fallback looks first.
+ */
+export const assetsRelativeTo = (documentPath: string, assets: Map<string, ArrayBuffer>): Map<string, ArrayBuffer> => {
+  const directory = directoryOf(documentPath);
+  const relative = [...assets].map(([path, data]) => [relativePath(directory, path), data] as [string, ArrayBuffer]);
+  const distance = (path: string) => path.split('/').filter(part => part === '..').length;
+  relative.sort(([a], [b]) => distance(a) - distance(b) || a.split('/').length - b.split('/').length);
+  return new Map(relative);
+};
+
+/** A Markdown summary of the run: what each document became and what it warned about. */
+export const buildBatchReport = (items: BatchItem[]): string => {
+  const converted = items.filter(item => item.status === 'done').length;
+  const warnings = items.reduce((sum, item) => sum + item.warnings.length, 0);
+  const lines = [
+    '# Conversion report',
+    '',
+    `Converted ${converted} of ${items.length} document(s) with ${warnings} warning(s).`,
+  ];
+  for (const item of items) {
+    lines.push('', item.status === 'done' ? `## ${item.path} → ${item.outputPath}` : `## ${item.path} (failed)`, '');
+    if (item.error) lines.push(`Error: ${item.error}`);
+    if (item.warnings.length) lines.push(...(item.error ? [''] : []), ...item.warnings.map(warning => `- ${warning}`));
+    else if (!item.error) lines.push('No warnings.');
+  }
+  return lines.join('\n') + '\n';
+};
+
+export interface BatchOptions {
+  docxOptions: Partial<DocxOptions>;
+  resources: DocxResources;
+  wordOptions?: Partial<WordImportOptions>;
+  // Markdown the pre-flight check finds errors in is reported as failed, not converted
+  failOnLintErrors?: boolean;
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void;
+  // Called whenever a document changes status
+  onProgress: (items: BatchItem[]) => void;
+}
+
+/**
+ * Converts every document one after another; a document that fails is reported
+ * and the rest carry on. Resolves to a zip of the outputs, laid out like the input
+ * tree, with the report at its root.
+ */
+export const convertBatch = async (input: BatchInput, options: BatchOptions): Promise<{ archive: Blob; items: BatchItem[] }> => {
+  const { onLog, onProgress } = options;
+  const items: BatchItem[] = input.documents.map(doc => ({ path: doc.path, kind: doc.kind, status: 'queued', warnings: [] }));
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...changes };
+    onProgress([...items]);
+  };
+  const zip = new JSZip();
+  const taken = new Set([BATCH_REPORT_NAME.toLowerCase()]);
+  onProgress([...items]);
+
+  for (const [index, doc] of input.documents.entries()) {
+    update(index, { status: 'converting' });
+    onLog(`Converting ${doc.path} (${index + 1}/${input.documents.length})...`, "info");
+    const warnings: string[] = [];
+    const collect = (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => {
+      if (level === 'warning' || level === 'error') {
+        warnings.push(msg);
+        onLog(`${doc.path}: ${msg}`, level);
+      }
+    };
+
+    try {
+      const directory = directoryOf(doc.path);
+      const wanted = `${directory}${baseName(doc.path)}.${doc.kind === 'markdown' ? 'docx' : 'md'}`;
+      const outputPath = uniquePath(wanted, taken);
+      if (outputPath !== wanted) collect(`${wanted} is already the output of another document; saved as ${outputPath}.`, "warning");
+      if (doc.kind === 'markdown') {
+        const markdown = new TextDecoder().decode(doc.data);
+        const assets = assetsRelativeTo(doc.path, input.assets);
+        if (options.failOnLintErrors) {
+          const errors = lintMarkdown(markdown, assets, options.docxOptions.disabledPlugins).filter(issue => issue.severity === 'error');
+          errors.forEach(issue => warnings.push(describeLintIssue(markdown, issue)));
+          if (errors.length) throw new Error(`The pre-flight check found ${errors.length} error(s).`);
+        }
+        const blob = await convertToDocx(markdown, assets, collect, options.docxOptions, options.resources);
+        zip.file(outputPath, await blob.arrayBuffer());
+      } else {
+        const result = await convertDocxToMd(doc.data, collect, { ...options.wordOptions, imageDir: documentImageDir(outputPath) });
+        zip.file(outputPath, result.markdown);
+        result.images.forEach((data, path) => zip.file(directory + path, data));
+      }
+      update(index, { status: 'done', outputPath, warnings });
+      onLog(`${doc.path} → ${outputPath}${warnings.length ? ` (${warnings.length} warning(s))` : ''}`, "success");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Converters log their fatal error before throwing it; the report shows it once
+      update(index, { status: 'failed', warnings: warnings.filter(warning => !warning.includes(message)), error: message });
+      onLog(`${doc.path} failed: ${message}`, "error");
+    }
+  }
+
+  zip.file(BATCH_REPORT_NAME, buildBatchReport(items));
+  const archive = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  return { archive, items };
+};
@@ -0,0 +1,271 @@
+// Reads BibTeX and CSL-JSON bibliographies and formats author-date citations and
+// reference list entries for them. This covers the common fields of articles,
+// books and web pages, not the whole of CSL.
+
+export interface BibName {
+  family: string;
+  given?: string;
+}
+
+export interface BibEntry {
+  id: string;
+  type: string;
+  title?: string;
+  authors: BibName[];
+  editors: BibName[];
+  year?: string;
+  container?: string;
+  publisher?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  url?: string;
+}
+
+// One cited work inside `[see @smith2020, p. 5; -@lee2019]`
+export interface CitationItem {
+  key: string;
+  prefix: string;
+  suffix: string;
+  suppressAuthor: boolean;
+}
+
+// A text run of a formatted reference; titles of containers are set in italics
+export interface ReferencePart {
+  text: string;
+  italics?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// BibTeX
+// ---------------------------------------------------------------------------
+
+const COMBINING_ACCENTS: Record<string, string> = {
+  '"': '̈', "'": '́', '`': '̀', '^': '̂', '~': '̃', '=': '̄', '.': '̇',
+  'c': '̧', 'v': '̌', 'u': '̆', 'H': '̋',
+};
+
+// Turns the bits of LaTeX that turn up in .bib files into plain text
+const latexToText = (value: string): string => value
+  .replace(/\\([cvuH])\s*\{(\w)\}|\\([cvuH])\s+(\w)/g, (_, a, b, c, d) => (b || d) + COMBINING_ACCENTS[a || c])
+  .replace(/\\(["'`^~=.])\s*\{?(\w)\}?/g, (_, accent: string, letter: string) => letter + COMBINING_ACCENTS[accent])
+  .replace(/\\ss\b\s*/g, 'ß')
+  .replace(/\\([&%$#_])/g, '$1')
+  .replace(/---/g, '—')
+  .replace(/--/g, '–')
+  .replace(/~/g, ' ')
+  .replace(/\\\w+\s*/g, '')
+  .replace(/[{}]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .normalize('NFC');
+
+// Reads a braced `{...}` or quoted `"..."` value starting at `start`
+const readDelimited = (text: string, start: number): [string, number] => {
+  const open = text[start];
+  const close = open === '{' ? '}' : '"';
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') { i++; continue; }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if ((close === '}' && depth === 0) || (close === '"' && char === '"' && i > start && depth === 0)) {
+      return [text.slice(start + 1, i), i + 1];
+    }
+  }
+  return [text.slice(start + 1), text.length];
+};
+
+const parseBibNames = (value: string): BibName[] =>
+  value.split(/\s+and\s+/).map(raw => {
+    const name = latexToText(raw);
+    if (name.includes(',')) {
+      const [family, given] = name.split(',').map(part => part.trim());
+      return { family, given: given || undefined };
+    }
+    // A fully braced name ("{World Health Organization}") is a single family name
+    if (/^\{.*\}$/.test(raw.trim())) return { family: name };
+    const parts = name.split(' ');
+    return parts.length > 1 ? { family: parts.pop()!, given: parts.join(' ') } : { family: name };
+  }).filter(name => name.family);
+
+const parseBibTeX = (text: string): BibEntry[] => {
+  const entries: BibEntry[] = [];
+  const strings: Record<string, string> = {};
+  const entryStart = /@(\w+)\s*[{(]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(text))) {
+    const type = match[1].toLowerCase();
+    let i = entryStart.lastIndex;
+    if (type === 'comment' || type === 'preamble') continue;
+
+    const fields: Record<string, string> = {};
+    let key = '';
+    if (type !== 'string') {
+      const comma = text.indexOf(',', i);
+      if (comma < 0) break;
+      key = text.slice(i, comma).trim();
+      i = comma + 1;
+    }
+
+    // field = value [# value ...], ...
+    while (i < text.length) {
+      const field = text.slice(i).match(/^\s*([\w-]+)\s*=\s*/);
+      if (!field) break;
+      i += field[0].length;
+      let value = '';
+      while (i < text.length) {
+        if (text[i] === '{' || text[i] === '"') {
+          const [raw, next] = readDelimited(text, i);
+          value += raw;
+          i = next;
+        } else {
+          const bare = text.slice(i).match(/^[\w-]+/);
+          if (!bare) break;
+          value += strings[bare[0].toLowerCase()] ?? bare[0];
+          i += bare[0].length;
+        }
+        const concat = text.slice(i).match(/^\s*#\s*/);
+        if (!concat) break;
+        i += concat[0].length;
+      }
+      fields[field[1].toLowerCase()] = value;
+      const separator = text.slice(i).match(/^\s*,?/);
+      i += separator ? separator[0].length : 0;
+    }
+    entryStart.lastIndex = i;
+
+    if (type === 'string') {
+      Object.assign(strings, fields);
+      continue;
+    }
+    if (!key) continue;
+
+    const plain = (name: string) => fields[name] !== undefined ? latexToText(fields[name]) : undefined;
+    entries.push({
+      id: key,
+      type,
+      title: plain('title'),
+      authors: fields.author ? parseBibNames(fields.author) : [],
+      editors: fields.editor ? parseBibNames(fields.editor) : [],
+      year: plain('year') || plain('date')?.slice(0, 4),
+      container: plain('journal') || plain('journaltitle') || plain('booktitle'),
+      publisher: plain('publisher') || plain('institution') || plain('school') || plain('organization'),
+      volume: plain('volume'),
+      issue: plain('number') || plain('issue'),
+      pages: plain('pages'),
+      doi: plain('doi'),
+      url: fields.url?.trim(),
+    });
+  }
+  return entries;
+};
+
+// ---------------------------------------------------------------------------
+// CSL-JSON
+// ---------------------------------------------------------------------------
+
+const cslNames = (names: any): BibName[] =>
+  Array.isArray(names)
+    ? names.map(name => ({ family: String(name.family || name.literal || ''), given: name.given ? String(name.given) : undefined }))
+      .filter(name => name.family)
+    : [];
+
+const cslText = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : String(value);
+
+const parseCslJson = (text: string): BibEntry[] => {
+  const data = JSON.parse(text);
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [data];
+  return items.filter(item => item && item.id !== undefined).map(item => ({
+    id: String(item.id),
+    type: String(item.type || 'article'),
+    title: cslText(item.title),
+    authors: cslNames(item.author),
+    editors: cslNames(item.editor),
+    year: cslText(item.issued?.['date-parts']?.[0]?.[0] ?? item.issued?.literal ?? item.issued?.raw?.slice(0, 4)),
+    container: cslText(item['container-title']),
+    publisher: cslText(item.publisher),
+    volume: cslText(item.volume),
+    issue: cslText(item.issue),
+    pages: cslText(item.page)?.replace(/-+/g, '–'),
+    doi: cslText(item.DOI),
+    url: cslText(item.URL),
+  }));
+};
+
+/** Parses a `.bib` or CSL `.json` bibliography, picking the format from the content. */
+export const parseBibliography = (text: string): Map<string, BibEntry> => {
+  const trimmed = text.trimStart();
+  const entries = trimmed.startsWith('[') || trimmed.startsWith('{') ? parseCslJson(trimmed) : parseBibTeX(text);
+  return new Map(entries.map(entry => [entry.id, entry]));
+};
+
+// ---------------------------------------------------------------------------
+// Formatting (author-date)
+// ---------------------------------------------------------------------------
+
+const NO_DATE = 'n.d.';
+
+const citedNames = (entry: BibEntry): string => {
+  const names = (entry.authors.length ? entry.authors : entry.editors).map(name => name.family);
+  if (names.length === 0) return entry.title || entry.id;
+  if (names.length === 1) return names[0];
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+  return `${names[0]} et al.`;
+};
+
+/** `(see Smith 2020, p. 5; Lee and Kim 2019)` for a bracketed citation. */
+export const formatCitation = (items: { item: CitationItem; entry: BibEntry }[]): string =>
+  `(${items.map(({ item, entry }) => {
+    const year = entry.year || NO_DATE;
+    const core = item.suppressAuthor ? year : `${citedNames(entry)} ${year}`;
+    return [item.prefix, core].filter(Boolean).join(' ') + (item.suffix ? `, ${item.suffix}` : '');
+  }).join('; ')})`;
+
+/** `Smith (2020, p. 5)` for a citation written in running text as `@smith2020`. */
+export const formatNarrativeCitation = (item: CitationItem, entry: BibEntry): string =>
+  `${citedNames(entry)} (${entry.year || NO_DATE}${item.suffix ? `, ${item.suffix}` : ''})`;
+
+const initials = (given: string) =>
+  given.split(/[\s-]+/).filter(Boolean).map(part => `${part[0].toUpperCase()}.`).join(' ');
+
+const referenceNames = (names: BibName[]): string => {
+  const formatted = names.map(name => name.given ? `${name.family}, ${initials(name.given)}` : name.family);
+  if (formatted.length <= 1) return formatted[0] || '';
+  return `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`;
+};
+
+const withPeriod = (text: string) => /[.?!]$/.test(text) ? text : `${text}.`;
+
+/** One reference list entry, loosely following APA. */
+export const formatReference = (entry: BibEntry): ReferencePart[] => {
+  const parts: ReferencePart[] = [];
+  const names = entry.authors.length ? referenceNames(entry.authors) : entry.editors.length ? `${referenceNames(entry.editors)} (Ed.)` : '';
+  if (names) parts.push({ text: `${withPeriod(names)} ` });
+  parts.push({ text: `(${entry.year || NO_DATE}). ` });
+
+  const isBook = /book|thesis|report|manual/i.test(entry.type) && !entry.container;
+  if (entry.title) parts.push(isBook ? { text: withPeriod(entry.title), italics: true } : { text: withPeriod(entry.title) });
+
+  if (entry.container) {
+    parts.push({ text: ' ' }, { text: entry.container, italics: true });
+    if (entry.volume) parts.push({ text: ', ' }, { text: entry.volume, italics: true });
+    if (entry.issue) parts.push({ text: `(${entry.issue})` });
+    if (entry.pages) parts.push({ text: `, ${entry.pages.replace(/-+/g, '–')}` });
+    parts.push({ text: '.' });
+  }
+  if (entry.publisher) parts.push({ text: ` ${withPeriod(entry.publisher)}` });
+  if (entry.doi) parts.push({ text: ` https://doi.org/${entry.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//, '')}` });
+  else if (entry.url) parts.push({ text: ` ${entry.url}` });
+  return parts;
+};
+
+/** Reference list order: by first author, then year, then title. */
+export const compareEntries = (a: BibEntry, b: BibEntry): number =>
+  citedNames(a).localeCompare(citedNames(b)) ||
+  (a.year || '').localeCompare(b.year || '') ||
+  (a.title || '').localeCompare(b.title || '');
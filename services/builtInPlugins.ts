@@ -0,0 +1,534 @@
+import {
+  Paragraph,
+  TextRun,
+  ExternalHyperlink,
+  Bookmark,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  BorderStyle,
+  AlignmentType,
+  Table,
+  TableRow,
+  TableCell,
+  TableLayoutType,
+  WidthType,
+  ShadingType,
+  VerticalAlign,
+  IRunOptions
+} from 'docx';
+import { Token, Tokens, TokenizerExtension } from 'marked';
+import {
+  BODY_TEXT_STYLE_NAME,
+  SOURCE_CODE_STYLE_NAME,
+  VERBATIM_CHAR_STYLE_NAME,
+  TABLE_LABEL,
+  CALLOUT_STYLES,
+  CalloutType,
+  styleIdFromName
+} from './docStyles';
+import {
+  LabelledHeading,
+  SizedImage,
+  PAGE_BREAK_COMMENT,
+  PAGE_BREAK_COMMAND,
+  HTML_COMMENT,
+  REFS_DIV,
+  decodeEntities,
+  inlineText,
+  imageFromTag,
+  standaloneImage
+} from './markdownDocument';
+import { stripAttributes, footnoteExtensions, citationExtensions, TABLE_CAPTION, CitationToken, FootnoteRefToken } from './crossReferences';
+import { mathExtensions, MathToken } from './mathConverter';
+import { RendererPlugin, InlineRenderer, PreviewRenderer, DocxBlock } from './rendererPlugins';
+import { escapeHtml, points, fontSize, fontStack, css, safeHref, bodyStyle, WORD_DEFAULT_FONT } from './previewHtml';
+
+// The syntax the converter supports out of the box, written as plugins like any
+// other. Order matters only where two plugins render the same token type.
+
+export const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+export const HEADING_NUMBERING = 'headings';
+
+export const VERBATIM_RUN: IRunOptions = { style: styleIdFromName(VERBATIM_CHAR_STYLE_NAME) };
+
+// Inline HTML tags that map onto run properties; other tags are dropped
+export const INLINE_HTML_STYLES: Record<string, IRunOptions> = {
+  b: { bold: true },
+  strong: { bold: true },
+  i: { italics: true },
+  em: { italics: true },
+  u: { underline: {} },
+  ins: { underline: {} },
+  s: { strike: true },
+  del: { strike: true },
+  strike: { strike: true },
+  sub: { subScript: true },
+  sup: { superScript: true },
+  mark: { highlight: "yellow" },
+  code: VERBATIM_RUN,
+  kbd: {
+    ...VERBATIM_RUN,
+    size: 18,
+    border: { color: "auto", space: 1, style: BorderStyle.SINGLE, size: 4 },
+  },
+};
+
+const MIN_COLUMN_WIDTH_TWIPS = 720;
+
+const CELL_ALIGNMENT = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+} as const;
+
+// CJK glyphs render roughly twice as wide as Latin ones, so count them double.
+const displayLength = (text: string): number => {
+  let length = 0;
+  for (const char of text) {
+    length += /[\u2E80-\u9FFF\uAC00-\uD7AF\uFF00-\uFFEF]/.test(char) ? 2 : 1;
+  }
+  return length;
+};
+
+const computeColumnWidths = (table: Tokens.Table, contentWidth: number): number[] => {
+  const rows = [table.header, ...table.rows];
+  // Cap each cell's weight so one long prose cell doesn't starve the other columns
+  const weights = table.header.map((_, col) =>
+    Math.max(3, ...rows.map(row => Math.min(displayLength(inlineText(row[col]?.tokens)), 40)))
+  );
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const widths = weights.map(w => Math.max(MIN_COLUMN_WIDTH_TWIPS, Math.floor(contentWidth * w / total)));
+
+  // Enforcing the minimum can overflow the page; scale back down if so
+  const overflow = widths.reduce((sum, w) => sum + w, 0);
+  return overflow > contentWidth
+    ? widths.map(w => Math.floor(w * contentWidth / overflow))
+    : widths;
+};
+
+const renderText: InlineRenderer = (token: Tokens.Text | Tokens.Escape, context, props) => {
+  if ('tokens' in token && token.tokens) return context.renderInline(token.tokens, props);
+  return token.text ? [new TextRun({ ...props, text: decodeEntities(token.text) })] : [];
+};
+
+const nothing = () => [];
+
+const previewText: PreviewRenderer = (token: Tokens.Text | Tokens.Escape, context) => {
+  if ('tokens' in token && token.tokens) return context.renderInline(token.tokens);
+  return token.text ? escapeHtml(decodeEntities(token.text)) : '';
+};
+
+const previewNothing = () => '';
+
+// The `Table: ...` caption without its prefix, as inline tokens
+const captionText = (caption: Tokens.Paragraph) => {
+  const { tokens, id } = stripAttributes(caption.tokens);
+  const text = tokens.map((t, i) => i === 0 && t.type === 'text'
+    ? { ...t, raw: t.text.replace(TABLE_CAPTION, ''), text: t.text.replace(TABLE_CAPTION, '') }
+    : t);
+  return { text, id };
+};
+
+const markdown: RendererPlugin = {
+  id: 'markdown',
+  name: 'Markdown',
+  description: 'CommonMark and GitHub syntax: headings, lists, tables, code, quotes and callouts, links, images and inline HTML.',
+  required: true,
+  blocks: {
+    heading: (heading: LabelledHeading, context) => {
+      const target = heading.label && context.labels.get(heading.label);
+      const children = context.renderInline(heading.tokens);
+      return [new Paragraph({
+        children: target ? [new Bookmark({ id: target.bookmark, children })] : children,
+        heading: HEADING_LEVELS[heading.depth - 1],
+        numbering: context.settings.numberedHeadings && !heading.unnumbered
+          ? { reference: HEADING_NUMBERING, level: heading.depth - 1 }
+          : undefined,
+      })];
+    },
+
+    paragraph: (token: Tokens.Paragraph, context) => {
+      // Table captions are rendered with their table
+      if (context.isTableCaption(token)) return [];
+
+      const figure = token.tokens && standaloneImage(token.tokens);
+      if (figure) return context.renderFigure(figure);
+      if (PAGE_BREAK_COMMAND.test(token.text.trim())) return [context.renderPageBreak()];
+
+      const children = token.tokens ? context.renderInline(token.tokens) : [new TextRun(token.text)];
+      return [new Paragraph({ children, style: styleIdFromName(BODY_TEXT_STYLE_NAME) })];
+    },
+
+    // Loose text outside a list item, e.g. after a plugin's own block
+    text: (token, context) => [new Paragraph({ children: context.renderInline([token]), style: styleIdFromName(BODY_TEXT_STYLE_NAME) })],
+
+    table: (table: Tokens.Table, context) => {
+      const { theme } = context;
+      const columnWidths = computeColumnWidths(table, context.contentWidth);
+      // Wide tables get a smaller font so they stay legible within the page width
+      const fontSize = columnWidths.length > 6 ? 16 : columnWidths.length > 4 ? 18 : undefined;
+
+      const buildRow = (cells: Tokens.TableCell[], isHeader: boolean) => new TableRow({
+        tableHeader: isHeader || undefined,
+        cantSplit: true,
+        children: columnWidths.map((width, col) => {
+          const cell = cells[col];
+          const align = cell?.align || table.align[col];
+          return new TableCell({
+            width: { size: width, type: WidthType.DXA },
+            verticalAlign: VerticalAlign.CENTER,
+            margins: { top: 60, bottom: 60, left: 100, right: 100 },
+            shading: isHeader ? { fill: theme.colors.tableHeaderFill, type: ShadingType.CLEAR, color: "auto" } : undefined,
+            children: [new Paragraph({
+              alignment: align ? CELL_ALIGNMENT[align] : undefined,
+              children: cell ? context.renderInline(cell.tokens, { bold: isHeader || undefined, size: fontSize }) : [],
+            })],
+          });
+        }),
+      });
+
+      const blocks: DocxBlock[] = [];
+      const caption = context.tableCaption(table);
+      if (caption) {
+        const { text, id } = captionText(caption);
+        blocks.push(context.renderCaption(TABLE_LABEL, [new TextRun(': '), ...context.renderInline(text)], id));
+      }
+
+      const border = { color: theme.colors.border, style: BorderStyle.SINGLE, size: 4 };
+      blocks.push(new Table({
+        rows: [
+          buildRow(table.header, true),
+          ...table.rows.map(row => buildRow(row, false)),
+        ],
+        width: { size: columnWidths.reduce((sum, w) => sum + w, 0), type: WidthType.DXA },
+        columnWidths,
+        layout: TableLayoutType.FIXED,
+        borders: {
+          top: border,
+          bottom: border,
+          left: border,
+          right: border,
+          insideHorizontal: border,
+          insideVertical: border,
+        },
+      }));
+      blocks.push(new Paragraph({ spacing: { after: 150 } }));
+      return blocks;
+    },
+
+    list: (token: Tokens.List, context) => context.renderList(token, 0),
+
+    blockquote: (token: Tokens.Blockquote, context) => context.renderQuote(token, 1),
+
+    code: (token: Tokens.Code, context) => context.renderCode(token),
+
+    html: (token: Tokens.HTML, context) => {
+      if (PAGE_BREAK_COMMENT.test(token.text.trim())) return [context.renderPageBreak()];
+      // pandoc's `<div id="refs"></div>` marks where the reference list goes
+      if (REFS_DIV.test(token.text.trim())) return [context.bibliographyPlaceholder];
+      // Block HTML is only mined for images, e.g. `<p align="center"><img src="..."></p>`
+      const imageTags = token.text.match(/<img\b[^>]*>/gi) || [];
+      const figures = imageTags.map(imageFromTag).filter((image): image is SizedImage => !!image);
+      if (figures.length) return figures.flatMap(context.renderFigure);
+      return token.text.trim() && !HTML_COMMENT.test(token.text) ? [new Paragraph({ text: token.text })] : [];
+    },
+
+    hr: (_token, context) => [new Paragraph({
+      border: { bottom: { color: context.theme.colors.border, space: 1, style: BorderStyle.SINGLE, size: 6 } },
+      spacing: { before: 200, after: 200 }
+    })],
+
+    space: nothing,
+    // Link reference definitions are resolved by the lexer; task boxes by the list
+    def: nothing,
+    checkbox: nothing,
+  },
+  inlines: {
+    image: (token: SizedImage, context) => [context.renderImage(token)],
+
+    link: (token: Tokens.Link, context, props) => [new ExternalHyperlink({
+      children: context.renderInline(token.tokens, { ...props, style: "Hyperlink" }),
+      link: token.href
+    })],
+
+    strong: (token: Tokens.Strong, context, props) => context.renderInline(token.tokens, { ...props, bold: true }),
+    em: (token: Tokens.Em, context, props) => context.renderInline(token.tokens, { ...props, italics: true }),
+    del: (token: Tokens.Del, context, props) => context.renderInline(token.tokens, { ...props, strike: true }),
+
+    codespan: (token: Tokens.Codespan, _context, props) => [new TextRun({ ...props, ...VERBATIM_RUN, text: decodeEntities(token.text) })],
+
+    br: () => [new TextRun({ break: 1 })],
+
+    html: (token: Tokens.Tag, context, _props, styles) => {
+      const tag = token.text.match(/^<(\/?)([a-zA-Z][\w-]*)[^>]*?(\/?)>$/);
+      if (!tag) return [];
+      const [, closing, rawName, selfClosing] = tag;
+      const name = rawName.toLowerCase();
+
+      if (name === 'br') return [new TextRun({ break: 1 })];
+      if (name === 'img') {
+        const image = imageFromTag(token.text);
+        return image ? [context.renderImage(image)] : [];
+      }
+      if (closing) styles.close(name);
+      else if (!selfClosing && INLINE_HTML_STYLES[name]) styles.open(name, INLINE_HTML_STYLES[name]);
+      // Any other tag is dropped, its text content still renders
+      return [];
+    },
+
+    text: renderText,
+    escape: renderText,
+  },
+  preview: {
+    blocks: {
+      heading: (heading: LabelledHeading, context) => {
+        const { theme } = context;
+        const target = heading.label && context.labels.get(heading.label);
+        const style = theme.headings[heading.depth - 1];
+        return `<h${heading.depth}${target ? ` id="${target.bookmark}"` : ''}${css({
+          'font-size': fontSize(style.size),
+          color: `#${style.color}`,
+          'font-family': style.font ? fontStack(style.font) : fontStack(theme.fonts.heading, theme.fonts.headingEastAsia, theme.fonts.body, WORD_DEFAULT_FONT),
+          'font-weight': style.bold ? 'bold' : 'normal',
+          'font-style': style.italics && 'italic',
+          margin: `${points(style.before)} 0 ${points(style.after)}`,
+        })}>${heading.number ? `${heading.number} ` : ''}${context.renderInline(heading.tokens)}</h${heading.depth}>`;
+      },
+
+      paragraph: (token: Tokens.Paragraph, context) => {
+        if (context.isTableCaption(token)) return '';
+        const figure = token.tokens && standaloneImage(token.tokens);
+        if (figure) return context.renderFigure(figure);
+        if (PAGE_BREAK_COMMAND.test(token.text.trim())) return context.renderPageBreak();
+        return `<p${css(bodyStyle(context.theme))}>${token.tokens ? context.renderInline(token.tokens) : escapeHtml(token.text)}</p>`;
+      },
+
+      text: (token, context) => `<p${css(bodyStyle(context.theme))}>${context.renderInline([token])}</p>`,
+
+      table: (table: Tokens.Table, context) => {
+        const { theme } = context;
+        const columns = table.header.length;
+        const size = columns > 6 ? 16 : columns > 4 ? 18 : undefined;
+        const border = `0.5pt solid #${theme.colors.border}`;
+        const cell = (cellToken: Tokens.TableCell | undefined, col: number, header: boolean) => {
+          const tag = header ? 'th' : 'td';
+          return `<${tag}${css({
+            border,
+            padding: `${points(60)} ${points(100)}`,
+            'text-align': cellToken?.align || table.align[col] || 'left',
+            'vertical-align': 'middle',
+            'font-weight': header ? 'bold' : 'normal',
+            background: header && `#${theme.colors.tableHeaderFill}`,
+            'font-size': size && fontSize(size),
+          })}>${cellToken ? context.renderInline(cellToken.tokens) : ''}</${tag}>`;
+        };
+
+        const caption = context.tableCaption(table);
+        const { text, id } = caption ? captionText(caption) : { text: [], id: undefined };
+        const columnsOf = (cells: Tokens.TableCell[], header: boolean) =>
+          Array.from({ length: columns }, (_, col) => cell(cells[col], col, header)).join('');
+        return (caption ? context.renderCaption(TABLE_LABEL, `: ${context.renderInline(text)}`, id) : '')
+          + `<table${css({ 'border-collapse': 'collapse', margin: `0 auto ${points(150)}`, 'max-width': '100%' })}>`
+          + `<thead><tr>${columnsOf(table.header, true)}</tr></thead>`
+          + `<tbody>${table.rows.map(row => `<tr>${columnsOf(row, false)}</tr>`).join('')}</tbody></table>`;
+      },
+
+      list: (token: Tokens.List, context) => context.renderList(token, 0),
+
+      blockquote: (token: Tokens.Blockquote, context) => context.renderQuote(token),
+
+      code: (token: Tokens.Code, context) => context.renderCode(token),
+
+      html: (token: Tokens.HTML, context) => {
+        if (PAGE_BREAK_COMMENT.test(token.text.trim())) return context.renderPageBreak();
+        if (REFS_DIV.test(token.text.trim())) return context.bibliographyPlaceholder;
+        const figures = (token.text.match(/<img\b[^>]*>/gi) || []).map(imageFromTag).filter((image): image is SizedImage => !!image);
+        if (figures.length) return figures.map(context.renderFigure).join('');
+        return token.text.trim() && !HTML_COMMENT.test(token.text) ? `<p${css(bodyStyle(context.theme))}>${escapeHtml(token.text)}</p>` : '';
+      },
+
+      hr: (_token, context) => `<div${css({ 'border-bottom': `0.75pt solid #${context.theme.colors.border}`, margin: `${points(200)} 0` })}></div>`,
+
+      space: previewNothing,
+      def: previewNothing,
+      checkbox: previewNothing,
+    },
+    inlines: {
+      image: (token: SizedImage, context) => context.renderImage(token),
+
+      link: (token: Tokens.Link, context) =>
+        `<a href="${escapeHtml(safeHref(token.href))}" target="_blank" rel="noreferrer"${css({ color: `#${context.theme.colors.link}`, 'text-decoration': 'underline' })}>${context.renderInline(token.tokens)}</a>`,
+
+      strong: (token: Tokens.Strong, context) => `<strong>${context.renderInline(token.tokens)}</strong>`,
+      em: (token: Tokens.Em, context) => `<em>${context.renderInline(token.tokens)}</em>`,
+      del: (token: Tokens.Del, context) => `<del>${context.renderInline(token.tokens)}</del>`,
+
+      codespan: (token: Tokens.Codespan, context) => `<code${css({
+        'font-family': fontStack(context.theme.fonts.code),
+        color: `#${context.theme.colors.code}`,
+        background: `#${context.theme.colors.codeFill}`,
+      })}>${escapeHtml(decodeEntities(token.text))}</code>`,
+
+      br: () => '<br>',
+
+      html: (token: Tokens.Tag, context) => {
+        const tag = token.text.match(/^<(\/?)([a-zA-Z][\w-]*)[^>]*?(\/?)>$/);
+        if (!tag) return '';
+        const [, closing, rawName, selfClosing] = tag;
+        const name = rawName.toLowerCase();
+        if (name === 'br') return '<br>';
+        if (name === 'img') {
+          const image = imageFromTag(token.text);
+          return image ? context.renderImage(image) : '';
+        }
+        // Only tags Word has a run property for are kept; others drop, their text stays
+        if (!INLINE_HTML_STYLES[name] || selfClosing) return '';
+        return closing ? `</${name}>` : `<${name}>`;
+      },
+
+      text: previewText,
+      escape: previewText,
+    },
+  },
+  word: {
+    styleMap: [
+      // convertToDocx writes each block as one paragraph, so a new one is a new block
+      `p[style-name='${SOURCE_CODE_STYLE_NAME}'] => pre:fresh:separator('\\n')`,
+      "p[style-name='Code'] => pre:separator('\\n')",
+      "p[style-name='Consolas'] => code",
+      "r[style-name='Code Text'] => code",
+      `r[style-name='${VERBATIM_CHAR_STYLE_NAME}'] => code`,
+      "p[style-name='Heading 1'] => h1:fresh",
+      "p[style-name='Heading 2'] => h2:fresh",
+      "p[style-name='Heading 3'] => h3:fresh"
+    ],
+  },
+};
+
+const math: RendererPlugin = {
+  id: 'math',
+  name: 'Math',
+  description: 'LaTeX between $…$ or $$…$$, as native Word equations.',
+  extensions: mathExtensions,
+  blocks: {
+    blockMath: (token: MathToken, context) => [new Paragraph({
+      children: [context.renderMath(token.text, false)],
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 120, after: 120 },
+    })],
+  },
+  inlines: {
+    inlineMath: (token: MathToken, context) => [context.renderMath(token.text, true)],
+  },
+  preview: {
+    blocks: {
+      blockMath: (token: MathToken, context) => context.renderMath(token.text, false),
+    },
+    inlines: {
+      inlineMath: (token: MathToken, context) => context.renderMath(token.text, true),
+    },
+  },
+};
+
+const footnotes: RendererPlugin = {
+  id: 'footnotes',
+  name: 'Footnotes',
+  description: '[^note] references and their definitions, as Word footnotes.',
+  extensions: footnoteExtensions,
+  blocks: {
+    // Rendered into the footnote where it is first referenced
+    footnoteDefinition: nothing,
+  },
+  inlines: {
+    footnoteRef: (token: FootnoteRefToken, context, props) => {
+      const id = context.renderFootnote(token.label);
+      return [id ? new FootnoteReferenceRun(id) : new TextRun({ ...props, text: token.raw })];
+    },
+  },
+  preview: {
+    blocks: {
+      footnoteDefinition: previewNothing,
+    },
+    inlines: {
+      footnoteRef: (token: FootnoteRefToken, context) => {
+        const id = context.renderFootnote(token.label);
+        return id ? `<sup>${id}</sup>` : escapeHtml(token.raw);
+      },
+    },
+  },
+};
+
+const citations: RendererPlugin = {
+  id: 'citations',
+  name: 'Citations',
+  description: '[@key] citations resolved against the bibliography, and @fig:x cross-references.',
+  extensions: citationExtensions,
+  inlines: {
+    citation: (token: CitationToken, context, props) => context.renderCitation(token, props),
+  },
+  preview: {
+    inlines: {
+      citation: (token: CitationToken, context) => context.renderCitation(token),
+    },
+  },
+};
+
+// pandoc's fenced divs, `::: warning Title` up to a line of as many colons; the
+// class may also be written `::: {.warning}`
+const fencedDiv: TokenizerExtension = {
+  name: 'container',
+  level: 'block',
+  start: src => src.match(/^:{3,}/m)?.index,
+  tokenizer(src) {
+    const match = src.match(/^(:{3,})[ \t]*(?:\{[ \t]*\.([\w-]+)[^}\n]*\}|([\w-]+))[ \t]*([^\n]*)\n([\s\S]*?)(?<=\n)\1[ \t]*(?:\n+|$)/);
+    if (!match) return undefined;
+    const [raw, , braced, bare, title, body] = match;
+    return { type: 'container', raw, kind: (braced || bare).toLowerCase(), title: title.trim(), text: body, tokens: this.lexer.blockTokens(body, []) };
+  },
+};
+
+interface ContainerToken extends Tokens.Generic {
+  type: 'container';
+  // The div's class, lower-cased, and the rest of its opening line
+  kind: string;
+  title: string;
+  text: string;
+  tokens: Token[];
+}
+
+// The GitHub callout types are drawn as the matching callout, like `> [!WARNING]`
+const containerCallout = (token: ContainerToken): Tokens.Blockquote | undefined => {
+  const type = (Object.keys(CALLOUT_STYLES) as CalloutType[]).find(name => name.toLowerCase() === token.kind);
+  return type && { type: 'blockquote', raw: token.raw, text: `[!${type}] ${token.title}\n${token.text}`, tokens: token.tokens };
+};
+
+const containers: RendererPlugin = {
+  id: 'containers',
+  name: 'Fenced divs',
+  description: '::: warning … ::: blocks; note, tip, important, warning and caution become callouts, other classes keep just their content.',
+  extensions: [fencedDiv],
+  blocks: {
+    container: (token: ContainerToken, context) => {
+      const callout = containerCallout(token);
+      return callout ? context.renderQuote(callout, 1) : context.renderBlocks(token.tokens);
+    },
+  },
+  preview: {
+    blocks: {
+      container: (token: ContainerToken, context) => {
+        const callout = containerCallout(token);
+        return callout ? context.renderQuote(callout) : context.renderBlocks(token.tokens);
+      },
+    },
+  },
+};
+
+export const BUILT_IN_PLUGINS: RendererPlugin[] = [markdown, math, footnotes, citations, containers];
@@ -0,0 +1,261 @@
+import { CodeTheme } from '../types';
+
+// A small rule-based highlighter. It runs entirely offline, so conversion never
+// depends on a CDN-hosted grammar, and only needs to be good enough for print.
+
+export type HighlightKind =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'function'
+  | 'builtin'
+  | 'property'
+  | 'variable'
+  | 'type'
+  | 'punctuation';
+
+export interface HighlightToken {
+  text: string;
+  kind: HighlightKind;
+}
+
+type Rule = [HighlightKind, RegExp];
+
+interface LanguageDefinition {
+  label: string;
+  rules: Rule[];
+}
+
+const words = (list: string, flags = '') => new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`, `y${flags}`);
+
+const NUMBER: Rule = ['number', /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?[jJnLl]?)\b/y];
+const FUNCTION_CALL: Rule = ['function', /[A-Za-z_$][\w$]*(?=\s*\()/y];
+const DOUBLE_QUOTED: Rule = ['string', /"(?:\\[\s\S]|[^"\\\n])*"?/y];
+const SINGLE_QUOTED: Rule = ['string', /'(?:\\[\s\S]|[^'\\\n])*'?/y];
+const HASH_COMMENT: Rule = ['comment', /#.*/y];
+const PUNCTUATION: Rule = ['punctuation', /[{}[\]();,.:]/y];
+
+const JS_KEYWORDS = `
+  abstract as async await break case catch class const continue debugger declare default delete do else enum
+  export extends finally for from function get if implements import in instanceof interface is keyof let
+  namespace new of private protected public readonly return satisfies set static super switch this throw try
+  type typeof var void while with yield`;
+
+const JAVASCRIPT: LanguageDefinition = {
+  label: 'JavaScript',
+  rules: [
+    ['comment', /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/y],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    ['string', /`(?:\\[\s\S]|[^`\\])*`?/y],
+    ['keyword', words(JS_KEYWORDS)],
+    ['builtin', words('true false null undefined NaN Infinity console window document globalThis Math JSON Promise Array Object String Number Boolean Map Set Date Error RegExp Symbol')],
+    ['type', words('any unknown never string number boolean bigint symbol object void')],
+    NUMBER,
+    FUNCTION_CALL,
+    ['type', /\b[A-Z][\w$]*/y],
+    PUNCTUATION,
+  ],
+};
+
+const TYPESCRIPT: LanguageDefinition = { ...JAVASCRIPT, label: 'TypeScript' };
+
+const PYTHON: LanguageDefinition = {
+  label: 'Python',
+  rules: [
+    HASH_COMMENT,
+    ['string', /[rRbBuUfF]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/y],
+    ['string', /[rRbBuUfF]{0,2}(?:"(?:\\[\s\S]|[^"\\\n])*"?|'(?:\\[\s\S]|[^'\\\n])*'?)/y],
+    ['function', /@[\w.]+/y],
+    ['keyword', words(`
+      and as assert async await break class continue def del elif else except finally for from global if
+      import in is lambda nonlocal not or pass raise return try while with yield match case`)],
+    ['builtin', words(`
+      True False None self cls print len range enumerate zip map filter sorted reversed sum min max abs
+      open int float str bool list dict set tuple type isinstance super object Exception`)],
+    NUMBER,
+    FUNCTION_CALL,
+    ['type', /\b[A-Z][\w]*/y],
+    PUNCTUATION,
+  ],
+};
+
+const JSON_LANGUAGE: LanguageDefinition = {
+  label: 'JSON',
+  rules: [
+    ['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y],
+    DOUBLE_QUOTED,
+    ['builtin', words('true false null')],
+    ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/y],
+    PUNCTUATION,
+  ],
+};
+
+const BASH: LanguageDefinition = {
+  label: 'Bash',
+  rules: [
+    ['comment', /(?:^|(?<=\s))#.*/y],
+    DOUBLE_QUOTED,
+    ['string', /'[^']*'?/y],
+    ['variable', /\$(?:\{[^}\n]*\}?|\w+|[@#?$!*0-9-])/y],
+    ['keyword', words('if then else elif fi for while until do done case esac in function select return local export readonly declare unset shift break continue')],
+    ['builtin', words('echo printf cd pwd ls cat grep sed awk find xargs mkdir rm cp mv chmod chown curl wget tar git npm npx node python pip docker sudo source exit set test read eval exec')],
+    ['property', /(?<=\s)--?[\w-]+/y],
+    NUMBER,
+  ],
+};
+
+const SQL: LanguageDefinition = {
+  label: 'SQL',
+  rules: [
+    ['comment', /--.*|\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['string', /'(?:''|[^'])*'?/y],
+    ['property', /"(?:""|[^"])*"?|`[^`]*`?/y],
+    ['keyword', words(`
+      select from where and or not in is null as join inner left right full outer cross on using group by
+      order having limit offset union all distinct insert into values update set delete create alter drop
+      table view index primary key foreign references default constraint unique check with recursive case
+      when then else end exists between like ilike asc desc returning over partition window begin commit
+      rollback transaction if replace`, 'i')],
+    ['type', words('int integer bigint smallint decimal numeric float real double varchar char text boolean date time timestamp timestamptz json jsonb uuid serial', 'i')],
+    ['builtin', words('count sum avg min max coalesce nullif cast round now lower upper trim length substring', 'i')],
+    NUMBER,
+    PUNCTUATION,
+  ],
+};
+
+const YAML: LanguageDefinition = {
+  label: 'YAML',
+  rules: [
+    HASH_COMMENT,
+    ['property', /[\w.-]+(?=\s*:(?:\s|$))/y],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    ['variable', /[&*][\w-]+/y],
+    ['builtin', words('true false yes no on off null', 'i')],
+    ['keyword', /---|\.\.\.|[|>][+-]?(?=\s*$)/my],
+    NUMBER,
+    ['punctuation', /[-:[\]{},]/y],
+  ],
+};
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  python: PYTHON, py: PYTHON,
+  typescript: TYPESCRIPT, ts: TYPESCRIPT, tsx: TYPESCRIPT,
+  javascript: JAVASCRIPT, js: JAVASCRIPT, jsx: JAVASCRIPT, mjs: JAVASCRIPT, cjs: JAVASCRIPT,
+  json: JSON_LANGUAGE, jsonc: JSON_LANGUAGE,
+  bash: BASH, sh: BASH, shell: BASH, zsh: BASH, console: BASH,
+  sql: SQL, mysql: SQL, postgresql: SQL, postgres: SQL, sqlite: SQL,
+  yaml: YAML, yml: YAML,
+};
+
+/** Display name for a fence language such as `py`, or the raw tag if unknown. */
+export const languageLabel = (lang: string): string =>
+  LANGUAGES[lang.toLowerCase()]?.label || lang;
+
+/**
+ * The fence language behind a display name, e.g. `Python` → `python`. Unknown
+ * languages are shown as their raw tag, so only a lowercase word is taken as one.
+ */
+export const languageFromLabel = (label: string): string | undefined =>
+  Object.keys(LANGUAGES).find(lang => LANGUAGES[lang].label === label) ||
+  (/^[a-z][\w+#.-]*$/.test(label) ? label : undefined);
+
+/**
+ * Splits code into lines of highlighted tokens. Unknown languages come back as
+ * plain text, so callers don't need a separate code path for them.
+ */
+export const highlightCode = (code: string, lang = ''): HighlightToken[][] => {
+  const language = LANGUAGES[lang.toLowerCase()];
+  const tokens: HighlightToken[] = [];
+
+  const push = (text: string, kind: HighlightKind) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ text, kind });
+  };
+
+  let position = 0;
+  while (position < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of language?.rules || []) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        push(match[0], kind);
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Consume a whole identifier at once so keywords never match mid-word
+      const word = /[\w$]+|[\s\S]/y;
+      word.lastIndex = position;
+      const text = word.exec(code)![0];
+      push(text, 'plain');
+      position += text.length;
+    }
+  }
+
+  // Multi-line tokens (block comments, docstrings) are split back into lines
+  const lines: HighlightToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ text: part, kind: token.kind });
+    });
+  }
+  return lines;
+};
+
+export interface CodePalette {
+  background: string;
+  border: string;
+  lineNumber: string;
+  caption: string;
+  colors: Record<HighlightKind, string>;
+}
+
+export const CODE_THEMES: Record<CodeTheme, CodePalette> = {
+  light: {
+    background: 'F6F8FA',
+    border: 'E1E4E8',
+    lineNumber: '959DA5',
+    caption: '57606A',
+    colors: {
+      plain: '24292E',
+      keyword: 'D73A49',
+      string: '032F62',
+      comment: '6A737D',
+      number: '005CC5',
+      function: '6F42C1',
+      builtin: '005CC5',
+      property: '005CC5',
+      variable: 'E36209',
+      type: '6F42C1',
+      punctuation: '24292E',
+    },
+  },
+  dark: {
+    background: '282C34',
+    border: '3E4451',
+    lineNumber: '636D83',
+    caption: 'ABB2BF',
+    colors: {
+      plain: 'ABB2BF',
+      keyword: 'C678DD',
+      string: '98C379',
+      comment: '7F848E',
+      number: 'D19A66',
+      function: '61AFEF',
+      builtin: 'E5C07B',
+      property: 'E06C75',
+      variable: 'E06C75',
+      type: 'E5C07B',
+      punctuation: 'ABB2BF',
+    },
+  },
+};
@@ -0,0 +1,73 @@
+import { convertToDocx } from './docxConverter';
+import { convertDocxToMd } from './mdConverter';
+import { findImageReferences, resolvesToImage } from './markdownPreview';
+import { ConversionLog, DocxOptions, DocumentMetadata, WordImportOptions } from '../types';
+
+// The converters without the React app around them: buffers and options in, the
+// output and everything that was logged out. Nothing here touches the page, so
+// it runs the same in a build pipeline under Node as in the browser.
+
+// Custom syntax is added by registering a plugin before converting
+export { registerPlugin, listPlugins } from './rendererPlugins';
+export type { RendererPlugin, DocxRenderContext, PreviewContext } from './rendererPlugins';
+
+export interface MarkdownToDocxInput {
+  markdown: string;
+  // Images and other files the Markdown refers to, keyed by the path it uses
+  assets?: Map<string, ArrayBuffer>;
+  options?: Partial<DocxOptions>;
+  referenceDoc?: ArrayBuffer;
+  bibliography?: string;
+  // Sees each message as it is logged, besides the collected `logs`
+  onLog?: (log: ConversionLog) => void;
+}
+
+export interface DocxConversion {
+  docx: ArrayBuffer;
+  logs: ConversionLog[];
+  // Image references that matched neither an asset nor an embedded data URI
+  missingImages: string[];
+}
+
+export interface DocxToMarkdownInput {
+  docx: ArrayBuffer;
+  // Image folder, comments, tracked changes and extra style mappings
+  options?: Partial<WordImportOptions>;
+  onLog?: (log: ConversionLog) => void;
+}
+
+export interface MarkdownConversion {
+  markdown: string;
+  images: Map<string, ArrayBuffer>;
+  metadata: DocumentMetadata;
+  logs: ConversionLog[];
+}
+
+const collectLogs = (onLog?: (log: ConversionLog) => void) => {
+  const logs: ConversionLog[] = [];
+  const log = (message: string, level: ConversionLog['level'] = 'info') => {
+    logs.push({ level, message });
+    onLog?.({ level, message });
+  };
+  return { logs, log };
+};
+
+/** Markdown to .docx. Throws only when no document could be produced at all. */
+export const markdownToDocx = async (input: MarkdownToDocxInput): Promise<DocxConversion> => {
+  const { logs, log } = collectLogs(input.onLog);
+  const assets = input.assets || new Map<string, ArrayBuffer>();
+  const blob = await convertToDocx(input.markdown, assets, log, input.options, {
+    referenceDoc: input.referenceDoc,
+    bibliography: input.bibliography,
+  });
+  const missingImages = [...new Set(findImageReferences(input.markdown).map(reference => reference.href))]
+    .filter(href => !resolvesToImage(href, assets));
+  return { docx: await blob.arrayBuffer(), logs, missingImages };
+};
+
+/** .docx to Markdown, with the embedded images pulled out into the image folder. */
+export const docxToMarkdown = async (input: DocxToMarkdownInput): Promise<MarkdownConversion> => {
+  const { logs, log } = collectLogs(input.onLog);
+  const result = await convertDocxToMd(input.docx, log, input.options);
+  return { ...result, logs };
+};
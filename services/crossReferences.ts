@@ -0,0 +1,145 @@
+import { Tokens, TokenizerExtension } from 'marked';
+import { CitationItem } from './bibliography';
+
+// ---------------------------------------------------------------------------
+// Markdown syntax for footnotes, citations and cross-references
+// ---------------------------------------------------------------------------
+
+export interface FootnoteDefinitionToken extends Tokens.Generic {
+  type: 'footnoteDefinition';
+  raw: string;
+  label: string;
+  tokens: any[];
+}
+
+export interface FootnoteRefToken extends Tokens.Generic {
+  type: 'footnoteRef';
+  raw: string;
+  label: string;
+}
+
+export interface CitationToken extends Tokens.Generic {
+  type: 'citation';
+  raw: string;
+  items: CitationItem[];
+  // `[@key]` rather than `@key` written in running text
+  bracketed: boolean;
+}
+
+// `[^label]: text`, continued by lines indented at least two spaces (blank lines
+// may separate indented paragraphs, as in pandoc)
+const footnoteDefinition: TokenizerExtension = {
+  name: 'footnoteDefinition',
+  level: 'block',
+  start: src => src.match(/^\[\^[^\]\s]+\]:/m)?.index,
+  tokenizer(src) {
+    const match = src.match(/^\[\^([^\]\s]+)\]:[ \t]*(.*(?:\n(?:[ \t]*\n)*(?: {2,}|\t).*)*)(?:\n+|$)/);
+    if (!match) return undefined;
+    const body = match[2].replace(/\n(?: {1,4}|\t)/g, '\n');
+    return { type: 'footnoteDefinition', raw: match[0], label: match[1], tokens: this.lexer.blockTokens(body, []) };
+  },
+};
+
+const footnoteRef: TokenizerExtension = {
+  name: 'footnoteRef',
+  level: 'inline',
+  start: src => src.match(/\[\^/)?.index,
+  tokenizer(src) {
+    const match = src.match(/^\[\^([^\]\s]+)\](?!:)/);
+    if (match) return { type: 'footnoteRef', raw: match[0], label: match[1] };
+  },
+};
+
+const CITATION_KEY = String.raw`[\w][\w:.#$%&+?<>~/-]*`;
+const CITATION_ITEM = new RegExp(String.raw`^\s*(.*?)\s*(-?)@(${CITATION_KEY})\s*(?:,\s*(.*?))?\s*$`);
+// Keys may contain punctuation inside but not end with it, so `@smith2020.` drops the full stop
+const trimKey = (key: string) => key.replace(/[:.#$%&+?<>~/-]+$/, '');
+
+const parseCitationItems = (inner: string): CitationItem[] | null => {
+  const items: CitationItem[] = [];
+  for (const part of inner.split(';')) {
+    const match = part.match(CITATION_ITEM);
+    if (!match || trimKey(match[3]) !== match[3]) return null;
+    items.push({ prefix: match[1], suppressAuthor: match[2] === '-', key: match[3], suffix: match[4] || '' });
+  }
+  return items.length ? items : null;
+};
+
+// `[see @key, p. 5; @other]` in brackets, or a bare `@key` in running text. A bare
+// `@` only counts after a space or punctuation, so e-mail addresses stay text.
+const citation: TokenizerExtension = {
+  name: 'citation',
+  level: 'inline',
+  start: src => {
+    const positions = [src.search(/\[[^\[\]\n]*@/), src.search(/(?<![\w.@-])-?@\w/)].filter(index => index >= 0);
+    return positions.length ? Math.min(...positions) : undefined;
+  },
+  tokenizer(src) {
+    const bracketed = src.match(/^\[([^\[\]\n]*@[^\[\]\n]*)\](?![(\[:])/);
+    if (bracketed) {
+      const items = parseCitationItems(bracketed[1]);
+      if (items) return { type: 'citation', raw: bracketed[0], items, bracketed: true };
+    }
+    const bare = src.match(new RegExp(String.raw`^(-?)@(${CITATION_KEY})`));
+    if (bare) {
+      const key = trimKey(bare[2]);
+      return {
+        type: 'citation',
+        raw: bare[1] + '@' + key,
+        items: [{ key, prefix: '', suffix: '', suppressAuthor: bare[1] === '-' }],
+        bracketed: false,
+      };
+    }
+  },
+};
+
+export const footnoteExtensions = [footnoteDefinition, footnoteRef];
+export const citationExtensions = [citation];
+export const referenceExtensions = [...footnoteExtensions, ...citationExtensions];
+
+// ---------------------------------------------------------------------------
+// Labels and bookmarks
+// ---------------------------------------------------------------------------
+
+// pandoc-crossref's prefixes: `{#fig:map}` labels a figure, `@fig:map` refers to it
+export type LabelKind = 'fig' | 'tbl' | 'sec';
+const LABEL_KINDS: LabelKind[] = ['fig', 'tbl', 'sec'];
+
+export const labelKind = (label: string): LabelKind | undefined =>
+  LABEL_KINDS.find(kind => label.startsWith(`${kind}:`));
+
+/**
+ * Word bookmark names allow letters, digits and underscores, at most 40 of them;
+ * a leading underscore hides the bookmark from Word's bookmark list. Labels that
+ * come out the same (`sec:a-b`, `sec:a_b`) are told apart by a number on the end;
+ * the name is added to `taken`.
+ */
+export const bookmarkName = (label: string, taken: Set<string>): string => {
+  const base = `_${label.replace(/[^\w]/g, '_')}`;
+  let name = base.slice(0, 40);
+  for (let n = 2; taken.has(name); n++) name = `${base.slice(0, 40 - `_${n}`.length)}_${n}`;
+  taken.add(name);
+  return name;
+};
+
+/**
+ * Splits a trailing pandoc attribute block (`Title {#sec:intro .unnumbered}`) off
+ * inline tokens, returning the id and classes it held.
+ */
+export const stripAttributes = (inlineTokens: any[]): { tokens: any[]; id?: string; classes: string[] } => {
+  const last = inlineTokens[inlineTokens.length - 1];
+  const match = last?.type === 'text' && !last.tokens ? last.text.match(/\s*\{([^{}]*)\}\s*$/) : null;
+  if (!match || !/(^|\s)[#.-]/.test(match[1])) return { tokens: inlineTokens, classes: [] };
+
+  const id = match[1].match(/(?:^|\s)#([^\s}]+)/)?.[1];
+  const classes = [...match[1].matchAll(/(?:^|\s)\.([\w-]+)/g)].map(m => m[1]);
+  if (/(?:^|\s)-(?:\s|$)/.test(match[1])) classes.push('unnumbered');
+
+  const text = last.text.slice(0, last.text.length - match[0].length);
+  const tokens = inlineTokens.slice(0, -1);
+  if (text) tokens.push({ ...last, raw: text, text });
+  return { tokens, id, classes };
+};
+
+// `Table: Sales by region {#tbl:sales}` or pandoc's shorter `: Sales by region`
+export const TABLE_CAPTION = /^(?:Table)?:\s+/;
@@ -0,0 +1,137 @@
+import { ImageSizeHints, parseSizeHints, readImageInfo } from './imageUtils';
+
+// Fenced code blocks that are drawn as diagrams instead of shown as code. Mermaid
+// renders in the page and Graphviz is compiled to WebAssembly, so neither needs a
+// server. PlantUML does (or Java), so its fences stay code blocks.
+export type DiagramEngine = 'mermaid' | 'graphviz';
+
+const DIAGRAM_LANGUAGES: Record<string, DiagramEngine> = {
+  mermaid: 'mermaid',
+  dot: 'graphviz',
+  graphviz: 'graphviz',
+};
+
+export const SERVER_DIAGRAM_LANGUAGES = ['plantuml', 'puml'];
+
+export interface DiagramFence {
+  engine: DiagramEngine;
+  language: string;
+  source: string;
+  caption?: string;
+  label?: string;
+  sizeHints: ImageSizeHints;
+  // The fence as written, stored in the image's description so Word→MD can restore it
+  markdown: string;
+}
+
+export interface RenderedDiagram {
+  type: 'png' | 'svg';
+  data: ArrayBuffer;
+  // Display size in CSS pixels, whatever the resolution of the data
+  width: number;
+  height: number;
+}
+
+// PNGs are drawn at twice the diagram's size so they stay sharp when printed
+const RASTER_SCALE = 2;
+
+const fenceLanguage = (info: string) => (info.trim().split(/\s+/)[0] || '').toLowerCase();
+
+export const isServerDiagram = (info: string) => SERVER_DIAGRAM_LANGUAGES.includes(fenceLanguage(info));
+
+/**
+ * Reads a diagram fence's info string, e.g. `mermaid {#fig:flow caption="Login flow" width=60%}`.
+ * Returns null for fences that are not diagrams.
+ */
+export const parseDiagramFence = (info: string, source: string): DiagramFence | null => {
+  const language = fenceLanguage(info);
+  const engine = DIAGRAM_LANGUAGES[language];
+  if (!engine) return null;
+
+  const attributes = parseSizeHints(info.trim().slice(language.length).trim());
+  // A fence needs more backticks than any run inside it
+  const longestRun = Math.max(0, ...(source.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(Math.max(3, longestRun + 1));
+  return {
+    engine,
+    language,
+    source,
+    caption: attributes?.attributes.caption || undefined,
+    label: attributes?.id,
+    sizeHints: attributes?.hints || {},
+    markdown: `${ticks}${info.trim()}\n${source}\n${ticks}`,
+  };
+};
+
+/** The diagram fence kept in an image description, or null for ordinary images. */
+export const diagramFromDescription = (description: string | undefined): string | null => {
+  const match = description?.trim().match(/^(`{3,})([^`\n]*)\n[\s\S]*\n\1$/);
+  return match && DIAGRAM_LANGUAGES[fenceLanguage(match[2])] ? description!.trim() : null;
+};
+
+let mermaidReady: Promise<typeof import('mermaid').default> | undefined;
+let diagramCount = 0;
+
+const renderMermaid = async (source: string): Promise<string> => {
+  mermaidReady ??= import('mermaid').then(({ default: mermaid }) => {
+    // HTML labels live in <foreignObject>, which Word and canvas drawing both drop
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', htmlLabels: false, flowchart: { htmlLabels: false } });
+    return mermaid;
+  });
+  const mermaid = await mermaidReady;
+  const id = `md2word-diagram-${++diagramCount}`;
+  try {
+    return (await mermaid.render(id, source)).svg;
+  } finally {
+    // A failed render leaves its scratch element behind in the page
+    if (typeof document !== 'undefined') document.getElementById(`d${id}`)?.remove();
+  }
+};
+
+let vizReady: Promise<import('@viz-js/viz').Viz> | undefined;
+
+const renderGraphviz = async (source: string): Promise<string> => {
+  vizReady ??= import('@viz-js/viz').then(({ instance }) => instance());
+  return (await vizReady).renderString(source, { format: 'svg', engine: 'dot' });
+};
+
+const rasterize = async (svg: string, width: number, height: number): Promise<ArrayBuffer> => {
+  // An explicit size on the root element, since Mermaid sets width="100%"
+  const parsed = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  parsed.documentElement.setAttribute('width', String(width));
+  parsed.documentElement.setAttribute('height', String(height));
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(parsed)], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('the SVG could not be drawn'));
+      image.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * RASTER_SCALE);
+    canvas.height = Math.ceil(height * RASTER_SCALE);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error('the diagram could not be converted to PNG');
+    return await png.arrayBuffer();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Draws a diagram. In the browser the result is a PNG, since Word's SVG support
+ * ignores the stylesheets Mermaid relies on; elsewhere (Graphviz only) the SVG is
+ * returned as is.
+ */
+export const renderDiagram = async (diagram: DiagramFence): Promise<RenderedDiagram> => {
+  const svg = diagram.engine === 'mermaid' ? await renderMermaid(diagram.source) : await renderGraphviz(diagram.source);
+  const data = new TextEncoder().encode(svg).buffer as ArrayBuffer;
+  const info = readImageInfo(data);
+  if (!info) throw new Error('the renderer did not produce an SVG image');
+
+  if (typeof document === 'undefined') return { type: 'svg', data, width: info.width, height: info.height };
+  return { type: 'png', data: await rasterize(svg, info.width, info.height), width: info.width, height: info.height };
+};
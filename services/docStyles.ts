@@ -0,0 +1,57 @@
+import { PageSize } from '../types';
+
+// Paragraph style names shared by both converters. convertToDocx writes them and
+// convertDocxToMd recognises them again when reading a document back.
+
+export const QUOTE_STYLE_NAME = 'Quote';
+export const QUOTE_INDENT_TWIPS = 360;
+
+// List levels step in by this much; unordered task items are plain paragraphs at
+// their level's indent, starting with a ☐ / ☒ glyph in this font
+export const LIST_INDENT_TWIPS = 720;
+export const TASK_BOX_FONT = 'Segoe UI Symbol';
+
+export const CAPTION_STYLE_NAME = 'Caption';
+// Pandoc's names, so reference documents made for pandoc style our output too
+export const BODY_TEXT_STYLE_NAME = 'Body Text';
+export const SOURCE_CODE_STYLE_NAME = 'Source Code';
+export const VERBATIM_CHAR_STYLE_NAME = 'Verbatim Char';
+export const FIGURE_LABEL = 'Figure';
+export const TABLE_LABEL = 'Table';
+export const SECTION_LABEL = 'Section';
+export const BIBLIOGRAPHY_STYLE_NAME = 'Bibliography';
+export const TOC_HEADING_STYLE_NAME = 'TOC Heading';
+export const TOC_TITLE = 'Contents';
+
+// Pandoc's reference-doc names for the title block, so either tool's output reads back
+export const TITLE_BLOCK_STYLES = ['Title', 'Subtitle', 'Author', 'Date'] as const;
+export type TitleBlockStyle = typeof TITLE_BLOCK_STYLES[number];
+
+// Portrait page dimensions in twips
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  A4: { width: 11906, height: 16838 },
+  A3: { width: 16838, height: 23811 },
+  A5: { width: 8391, height: 11906 },
+  B5: { width: 9978, height: 14173 },
+  Letter: { width: 12240, height: 15840 },
+  Legal: { width: 12240, height: 20160 },
+};
+
+export const mmToTwips = (mm: number) => Math.round(mm * 1440 / 25.4);
+
+export type CalloutType = 'NOTE' | 'TIP' | 'IMPORTANT' | 'WARNING' | 'CAUTION';
+
+// Colors follow GitHub's alert palette
+export const CALLOUT_STYLES: Record<CalloutType, { label: string; color: string; fill: string }> = {
+  NOTE: { label: 'Note', color: '0969DA', fill: 'DDF4FF' },
+  TIP: { label: 'Tip', color: '1A7F37', fill: 'DAFBE1' },
+  IMPORTANT: { label: 'Important', color: '8250DF', fill: 'FBEFFF' },
+  WARNING: { label: 'Warning', color: '9A6700', fill: 'FFF8C5' },
+  CAUTION: { label: 'Caution', color: 'D1242F', fill: 'FFEBE9' },
+};
+
+export const calloutStyleName = (type: CalloutType) => `Callout ${CALLOUT_STYLES[type].label}`;
+export const calloutTitleStyleName = (type: CalloutType) => `${calloutStyleName(type)} Title`;
+
+// Word style ids cannot contain spaces
+export const styleIdFromName = (name: string) => name.replace(/\s+/g, '');
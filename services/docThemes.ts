@@ -0,0 +1,160 @@
+import { ThemeName, PageMargins } from '../types';
+
+// Built-in looks for the generated document. Everything typographic that used to
+// be hard-coded in convertToDocx lives here, so a theme only swaps values and the
+// renderer itself never names a font or a color.
+
+export interface HeadingTheme {
+  size: number; // half-points
+  color: string;
+  font?: string;
+  bold?: boolean;
+  italics?: boolean;
+  before: number; // twips
+  after: number;
+}
+
+export interface DocTheme {
+  label: string;
+  fonts: {
+    body?: string;
+    eastAsia?: string;
+    heading?: string;
+    headingEastAsia?: string;
+    title?: string;
+    code: string;
+  };
+  bodySize?: number; // half-points; Word's default when unset
+  titleSize: number;
+  // Exact line height in twips, or a multiple of single spacing (240 = single)
+  line?: { value: number; exact?: boolean };
+  paragraphAfter: number;
+  firstLineIndent?: number; // twips
+  justify?: boolean;
+  headings: HeadingTheme[]; // levels 1-6
+  colors: {
+    text?: string;
+    title: string;
+    link: string;
+    muted: string;
+    code: string;
+    codeFill: string;
+    tableHeaderFill: string;
+    border: string;
+  };
+  // Page margins the style guide prescribes, used unless the document sets its own
+  margins?: PageMargins;
+}
+
+const heading = (size: number, color: string, before: number, after: number, extra: Partial<HeadingTheme> = {}): HeadingTheme =>
+  ({ size, color, before, after, bold: true, ...extra });
+
+export const DOC_THEMES: Record<ThemeName, DocTheme> = {
+  default: {
+    label: 'Default',
+    fonts: { code: 'Consolas' },
+    titleSize: 56,
+    paragraphAfter: 150,
+    headings: [
+      heading(32, '2E74B5', 400, 200, { bold: false }),
+      heading(26, '2E74B5', 400, 200, { bold: false }),
+      heading(24, '1F4D78', 400, 200, { bold: false }),
+      heading(22, '2E74B5', 400, 200, { bold: false, italics: true }),
+      heading(22, '2E74B5', 300, 150, { bold: false }),
+      heading(22, '1F4D78', 300, 150, { bold: false }),
+    ],
+    colors: {
+      title: '000000',
+      link: '0563C1',
+      muted: '475569',
+      code: 'D11111',
+      codeFill: 'F3F4F6',
+      tableHeaderFill: 'F1F5F9',
+      border: 'CBD5E1',
+    },
+  },
+  academic: {
+    label: 'Academic',
+    fonts: { body: 'Times New Roman', eastAsia: 'SimSun', heading: 'Times New Roman', headingEastAsia: 'SimHei', code: 'Courier New' },
+    bodySize: 24,
+    line: { value: 360 },
+    titleSize: 36,
+    paragraphAfter: 120,
+    justify: true,
+    headings: [
+      heading(32, '000000', 480, 240),
+      heading(28, '000000', 360, 180),
+      heading(24, '000000', 240, 120),
+      heading(24, '000000', 240, 120, { bold: false, italics: true }),
+      heading(24, '000000', 200, 100, { bold: false }),
+      heading(22, '000000', 200, 100, { bold: false, italics: true }),
+    ],
+    colors: {
+      text: '000000',
+      title: '000000',
+      link: '000000',
+      muted: '404040',
+      code: '000000',
+      codeFill: 'F2F2F2',
+      tableHeaderFill: 'F2F2F2',
+      border: '000000',
+    },
+  },
+  corporate: {
+    label: 'Corporate',
+    fonts: { body: 'Segoe UI', eastAsia: 'Microsoft YaHei', heading: 'Segoe UI Semibold', headingEastAsia: 'Microsoft YaHei', code: 'Cascadia Mono' },
+    bodySize: 21,
+    line: { value: 276 },
+    titleSize: 52,
+    paragraphAfter: 160,
+    headings: [
+      heading(36, '1F3864', 480, 200),
+      heading(28, '2F5496', 360, 160),
+      heading(24, '2F5496', 280, 120),
+      heading(22, '404040', 240, 100),
+      heading(21, '404040', 200, 80),
+      heading(21, '7F7F7F', 200, 80),
+    ],
+    colors: {
+      text: '262626',
+      title: '1F3864',
+      link: '2F5496',
+      muted: '595959',
+      code: '1F3864',
+      codeFill: 'EEF2F8',
+      tableHeaderFill: 'DCE4F2',
+      border: '8EAADB',
+    },
+  },
+  // GB/T 9704-2012 party and government documents: 3号 仿宋 body on a 28.95pt
+  // grid, 黑体 / 楷体 for the first two heading levels, 2-character indents.
+  official: {
+    label: '公文 (Chinese official)',
+    fonts: { body: '仿宋', eastAsia: '仿宋', heading: '黑体', headingEastAsia: '黑体', title: '方正小标宋简体', code: 'Courier New' },
+    bodySize: 32,
+    line: { value: 579, exact: true },
+    titleSize: 44,
+    paragraphAfter: 0,
+    firstLineIndent: 640,
+    justify: true,
+    headings: [
+      heading(32, '000000', 0, 0, { bold: false }),
+      heading(32, '000000', 0, 0, { bold: false, font: '楷体' }),
+      heading(32, '000000', 0, 0, { font: '仿宋' }),
+      heading(32, '000000', 0, 0, { bold: false, font: '仿宋' }),
+      heading(32, '000000', 0, 0, { bold: false, font: '仿宋' }),
+      heading(32, '000000', 0, 0, { bold: false, font: '仿宋' }),
+    ],
+    colors: {
+      text: '000000',
+      title: '000000',
+      link: '000000',
+      muted: '000000',
+      code: '000000',
+      codeFill: 'FFFFFF',
+      tableHeaderFill: 'FFFFFF',
+      border: '000000',
+    },
+    margins: { top: 37, right: 26, bottom: 35, left: 28 },
+  },
+};
@@ -0,0 +1,213 @@
+import { Token } from 'marked';
+import {
+  SizedImage,
+  PAGE_BREAK_COMMENT,
+  HTML_COMMENT,
+  REFS_DIV,
+  attachSizeHints,
+  imageFromTag,
+  standaloneImage,
+  findAssetKey,
+} from './markdownDocument';
+import { stripAttributes, TABLE_CAPTION } from './crossReferences';
+import { parseDiagramFence } from './diagramRenderer';
+import { splitFrontMatter } from './frontMatter';
+import { describeImageSource } from './imageUtils';
+import { resolvesToImage } from './markdownPreview';
+import { enabledPlugins, markdownParserFor, pluginRenderers } from './rendererPlugins';
+import { INLINE_HTML_STYLES } from './builtInPlugins';
+
+// A pass over the parsed document that runs before anything is converted, so the
+// problems the converter would only mention in passing are listed up front.
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule = 'missing-image' | 'unsupported-syntax' | 'heading-jump' | 'duplicate-anchor' | 'bare-url' | 'dropped-html';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  // Offsets into the Markdown as given, front matter included
+  start: number;
+  end: number;
+  // The uploaded asset a broken image most likely meant
+  suggestion?: string;
+}
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const fileName = (path: string) => (path.split(/[?#]/)[0].split('/').pop() || path).toLowerCase();
+
+/** The asset whose file name is closest to a broken reference's, if any is close. */
+export const closestAsset = (href: string, assets: Map<string, unknown>): string | undefined => {
+  const wanted = fileName(href);
+  let best: { key: string; distance: number } | undefined;
+  for (const key of assets.keys()) {
+    const distance = editDistance(wanted, fileName(key));
+    if (!best || distance < best.distance) best = { key, distance };
+  }
+  return best && best.distance <= Math.max(2, Math.floor(wanted.length / 3)) ? best.key : undefined;
+};
+
+/**
+ * Checks a Markdown document against what the Word conversion can do with it:
+ * images that won't resolve, syntax no enabled plugin renders, skipped heading
+ * levels, labels defined twice, bare URLs and HTML that won't survive. Issues come
+ * back in document order.
+ */
+export const lintMarkdown = (markdown: string, assets: Map<string, unknown>, disabledPlugins: string[] = []): LintIssue[] => {
+  const plugins = enabledPlugins(disabledPlugins);
+  const renderers = pluginRenderers(plugins);
+  const { body } = splitFrontMatter(markdown);
+  const bodyStart = markdown.length - body.length;
+  const issues: LintIssue[] = [];
+  const anchors = new Set<string>();
+  const footnotes = new Set<string>();
+  let headingDepth = 0;
+
+  const report = (rule: LintRule, severity: LintSeverity, message: string, start: number, end: number, suggestion?: string) =>
+    issues.push({ rule, severity, message, start, end, ...(suggestion ? { suggestion } : {}) });
+
+  const checkImage = (image: SizedImage, start: number, end: number) => {
+    if (resolvesToImage(image.href, assets)) return;
+    if (/^data:/i.test(image.href)) {
+      report('missing-image', 'error', `Embedded image can't be read: ${describeImageSource(image.href)}`, start, end);
+      return;
+    }
+    const suggestion = findAssetKey(assets, image.href) === undefined ? closestAsset(image.href, assets) : undefined;
+    report('missing-image', 'error', `Image not found among the uploaded files: ${image.href}`, start, end, suggestion);
+  };
+
+  const checkAnchor = (label: string | undefined, start: number, end: number) => {
+    if (!label) return;
+    if (anchors.has(label)) report('duplicate-anchor', 'warning', `{#${label}} is already used by an earlier heading, figure or table.`, start, end);
+    anchors.add(label);
+  };
+
+  // Finds each token's raw text in the source so issues can point at it; tokens
+  // rebuilt by the lexer (e.g. dedented list items) fall back to their parent's place
+  const locate = (token: any, cursor: number): [number, number] => {
+    const found = token.raw ? markdown.indexOf(token.raw, cursor) : -1;
+    return found === -1 ? [cursor, cursor] : [found, found + token.raw.trimEnd().length];
+  };
+
+  const visitInline = (tokens: any[], from: number) => {
+    let cursor = from;
+    for (const token of attachSizeHints(tokens)) {
+      const [start, end] = locate(token, cursor);
+      if (end > start) cursor = end;
+
+      if (!renderers.inlines[token.type]) {
+        report('unsupported-syntax', 'warning', `No plugin renders "${token.type}", so it is converted as plain text.`, start, end);
+      } else if (token.type === 'image') {
+        checkImage(token, start, end);
+      } else if (token.type === 'link' && token.raw === token.text && /^(https?:\/\/|www\.)/i.test(token.raw)) {
+        report('bare-url', 'info', `Bare URL ${token.raw} shows in full in Word; give it link text.`, start, end);
+      } else if (token.type === 'html') {
+        const tag = token.text.match(/^<([a-zA-Z][\w-]*)[^>]*?>$/);
+        const name = tag?.[1].toLowerCase();
+        if (name === 'img') {
+          const image = imageFromTag(token.text);
+          if (image) checkImage(image, start, end);
+        } else if (name && name !== 'br' && !INLINE_HTML_STYLES[name]) {
+          report('dropped-html', 'info', `<${name}> is dropped; only its text is kept.`, start, end);
+        }
+      }
+      if (token.tokens) visitInline(token.tokens, start);
+    }
+  };
+
+  const visitBlocks = (tokens: Token[], from: number, nested: boolean) => {
+    let cursor = from;
+    tokens.forEach(token => {
+      const [start, end] = locate(token, cursor);
+      if (end > start) cursor = end;
+
+      if (!renderers.blocks[token.type]) {
+        report('unsupported-syntax', 'warning', `No plugin renders "${token.type}" blocks, so they are converted as plain text.`, start, end);
+      }
+      switch (token.type) {
+        case 'heading': {
+          const { id } = stripAttributes(token.tokens || []);
+          if (!nested) {
+            if (headingDepth && token.depth > headingDepth + 1) {
+              report('heading-jump', 'warning', `Heading level ${token.depth} follows level ${headingDepth}; Word's outline and table of contents skip a level.`, start, end);
+            }
+            headingDepth = token.depth;
+          }
+          checkAnchor(id, start, end);
+          visitInline(token.tokens || [], start);
+          break;
+        }
+        case 'paragraph': {
+          const figure = standaloneImage(token.tokens || []);
+          if (figure?.label) checkAnchor(figure.label, start, end);
+          if (TABLE_CAPTION.test(token.text)) checkAnchor(stripAttributes(token.tokens || []).id, start, end);
+          visitInline(token.tokens || [], start);
+          break;
+        }
+        case 'text':
+          visitInline(token.tokens || [], start);
+          break;
+        case 'table':
+          [token.header, ...token.rows].forEach((row: any[]) => row.forEach(cell => visitInline(cell.tokens, start)));
+          break;
+        case 'code':
+          checkAnchor(parseDiagramFence(token.lang || '', token.text)?.label, start, end);
+          break;
+        case 'html': {
+          const text = token.text.trim();
+          const images = (token.text.match(/<img\b[^>]*>/gi) || []).map(imageFromTag).filter((image): image is SizedImage => !!image);
+          images.forEach(image => checkImage(image, start, end));
+          if (text && !images.length && !PAGE_BREAK_COMMENT.test(text) && !REFS_DIV.test(text) && !HTML_COMMENT.test(token.text)) {
+            report('dropped-html', 'warning', 'HTML block is not converted; its tags show in Word as literal text.', start, end);
+          }
+          break;
+        }
+        case 'list':
+          token.items.forEach((item: any) => {
+            const [itemStart] = locate(item, start);
+            visitBlocks(item.tokens, itemStart, true);
+          });
+          break;
+        case 'footnoteDefinition':
+          if (footnotes.has(token.label)) {
+            report('duplicate-anchor', 'warning', `Footnote [^${token.label}] is defined more than once; only the last definition is used.`, start, end);
+          }
+          footnotes.add(token.label);
+          visitBlocks(token.tokens, start, true);
+          break;
+        case 'blockquote':
+          visitBlocks(token.tokens, start, true);
+          break;
+        default:
+          // A plugin's own token: its children are blocks if any of them is a paragraph or the like
+          if ('tokens' in token && token.tokens?.length) {
+            const blocks = token.tokens.some((child: any) => renderers.blocks[child.type] && !renderers.inlines[child.type]);
+            if (blocks) visitBlocks(token.tokens, start, true);
+            else visitInline(token.tokens, start);
+          }
+      }
+    });
+  };
+
+  visitBlocks(markdownParserFor(plugins).lexer(body), bodyStart, false);
+  return issues.sort((a, b) => a.start - b.start);
+};
+
+/** `line 12: Image not found…`, for logs and reports. */
+export const describeLintIssue = (markdown: string, issue: LintIssue): string => {
+  const line = markdown.slice(0, issue.start).split('\n').length;
+  return `line ${line}: ${issue.message}${issue.suggestion ? ` Did you mean ${issue.suggestion}?` : ''}`;
+};
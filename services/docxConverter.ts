@@ -6,157 +6,1037 @@ import {
   TextRun, 
   HeadingLevel, 
   ImageRun, 
-  ExternalHyperlink,
   BorderStyle,
-  AlignmentType
+  AlignmentType,
+  ShadingType,
+  LevelFormat,
+  SimpleField,
+  LevelSuffix,
+  TableOfContents,
+  Header,
+  Footer,
+  PageNumber,
+  PageBreak,
+  Bookmark,
+  LineRuleType,
+  UnderlineType,
+  PageOrientation,
+  IRunOptions,
+  ParagraphChild,
+  ISectionOptions
 } from 'docx';
-import { marked } from 'marked';
+import { Token, Tokens } from 'marked';
+import JSZip from 'jszip';
+import {
+  QUOTE_STYLE_NAME,
+  QUOTE_INDENT_TWIPS,
+  CALLOUT_STYLES,
+  CalloutType,
+  calloutStyleName,
+  calloutTitleStyleName,
+  CAPTION_STYLE_NAME,
+  TOC_HEADING_STYLE_NAME,
+  TOC_TITLE,
+  BODY_TEXT_STYLE_NAME,
+  SOURCE_CODE_STYLE_NAME,
+  VERBATIM_CHAR_STYLE_NAME,
+  FIGURE_LABEL,
+  TABLE_LABEL,
+  BIBLIOGRAPHY_STYLE_NAME,
+  TITLE_BLOCK_STYLES,
+  PAGE_SIZES,
+  LIST_INDENT_TWIPS,
+  TASK_BOX_FONT,
+  mmToTwips,
+  styleIdFromName
+} from './docStyles';
+import { latexToDocxMath } from './mathConverter';
+import { DOC_THEMES, DocTheme } from './docThemes';
+import { highlightCode, languageLabel, CODE_THEMES } from './codeHighlighter';
+import {
+  readImageInfo,
+  fitImageSize,
+  decodeDataUri,
+  describeImageSource,
+  lengthToPixels,
+  ImageSizeHints,
+  ImageType,
+  IMAGE_MIME_TYPES,
+  TRANSPARENT_PNG
+} from './imageUtils';
+import { splitFrontMatter, metadataFromFrontMatter, normalizeOptionKey, FrontMatterData, FrontMatterValue } from './frontMatter';
+import { loadReferenceDoc, applyReferenceDoc, ReferencePage } from './referenceDoc';
+import { CitationToken, labelKind, bookmarkName } from './crossReferences';
+import {
+  formatCitation,
+  formatNarrativeCitation,
+  formatReference,
+  compareEntries,
+  BibEntry,
+  CitationItem
+} from './bibliography';
+import { renderDiagram, DiagramFence, RenderedDiagram } from './diagramRenderer';
+import {
+  SizedImage,
+  CALLOUT_MARKER,
+  TOC_DEPTH,
+  decodeEntities,
+  inlineText,
+  attachSizeHints,
+  findAssetKey,
+  loadBibliography,
+  renderDiagrams,
+  collectTargets
+} from './markdownDocument';
+import { enabledPlugins, markdownParserFor, pluginRenderers, DocxRenderContext, DocxBlock, InlineStyles } from './rendererPlugins';
+import { HEADING_LEVELS, HEADING_NUMBERING, VERBATIM_RUN } from './builtInPlugins';
+import { DocxOptions, DocxResources, DocumentMetadata, PageMargins, HeaderFooterContent } from '../types';
+
+export const DEFAULT_DOCX_OPTIONS: DocxOptions = {
+  codeTheme: 'light',
+  codeLineNumbers: false,
+  codeLanguageCaption: true,
+  diagrams: true,
+  theme: 'default',
+  titlePage: false,
+  toc: false,
+  numberedHeadings: false,
+  header: 'none',
+  footer: 'none',
+  pageSize: 'A4',
+  margins: { top: 25.4, right: 25.4, bottom: 25.4, left: 25.4 },
+  disabledPlugins: [],
+};
+
+// Images are sized in pixels at 96 DPI, i.e. 15 twips per pixel
+const TWIPS_PER_PIXEL = 15;
+
+// Page size and margins in twips, as chosen in the options
+const settingsPage = ({ pageSize, margins }: DocxOptions): ReferencePage => ({
+  size: PAGE_SIZES[pageSize],
+  margin: {
+    top: mmToTwips(margins.top),
+    right: mmToTwips(margins.right),
+    bottom: mmToTwips(margins.bottom),
+    left: mmToTwips(margins.left),
+  },
+});
+
+// Adds the printable area left between the margins
+const pageLayout = ({ size, margin }: ReferencePage) => ({
+  size,
+  margin,
+  contentWidth: size.width - margin.left - margin.right,
+  contentHeight: size.height - margin.top - margin.bottom,
+});
+
+const sameMargins = (a: PageMargins, b: PageMargins) =>
+  a.top === b.top && a.right === b.right && a.bottom === b.bottom && a.left === b.left;
+
+const ORDERED_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+const BULLET_GLYPHS = ['\u2022', '\u25E6', '\u25AA'];
+const LIST_HANGING_TWIPS = 360;
+
+// Every Markdown list gets its own numbering definition so that each one restarts
+// at its own `start` value. All nine levels are defined; only `depth` is used.
+const buildListNumbering = (reference: string, ordered: boolean, start: number, depth: number) => ({
+  reference,
+  levels: Array.from({ length: 9 }, (_, level) => ({
+    level,
+    format: ordered ? ORDERED_FORMATS[level % ORDERED_FORMATS.length] : LevelFormat.BULLET,
+    text: ordered ? `%${level + 1}.` : BULLET_GLYPHS[level % BULLET_GLYPHS.length],
+    start: level === depth ? start : 1,
+    alignment: AlignmentType.LEFT,
+    style: {
+      paragraph: { indent: { left: LIST_INDENT_TWIPS * (level + 1), hanging: LIST_HANGING_TWIPS } },
+    },
+  })),
+});
+
+// Legal-style outline numbers: 1, 1.1, 1.1.1, ...
+const buildHeadingNumbering = () => ({
+  reference: HEADING_NUMBERING,
+  levels: HEADING_LEVELS.map((_, level) => ({
+    level,
+    format: LevelFormat.DECIMAL,
+    text: Array.from({ length: level + 1 }, (_, i) => `%${i + 1}`).join('.'),
+    alignment: AlignmentType.LEFT,
+    suffix: LevelSuffix.SPACE,
+    style: { paragraph: { indent: { left: 0, hanging: 0 } } },
+  })),
+});
+
+// Stands in for the reference list until every citation has been rendered
+const BIBLIOGRAPHY_PLACEHOLDER = new Paragraph({});
+
+const quoteBorder = (color: string) => ({
+  left: { color, space: 12, style: BorderStyle.SINGLE, size: 18 },
+});
+
+const buildQuoteStyles = (theme: DocTheme) => [
+  {
+    id: styleIdFromName(QUOTE_STYLE_NAME),
+    name: QUOTE_STYLE_NAME,
+    basedOn: "Normal",
+    next: "Normal",
+    quickFormat: true,
+    run: { italics: true, color: theme.colors.muted },
+    paragraph: {
+      indent: { left: QUOTE_INDENT_TWIPS },
+      border: quoteBorder(theme.colors.border),
+      spacing: { after: 120 },
+    },
+  },
+  ...(Object.keys(CALLOUT_STYLES) as CalloutType[]).flatMap(type => {
+    const { color, fill } = CALLOUT_STYLES[type];
+    const name = calloutStyleName(type);
+    return [
+      {
+        id: styleIdFromName(name),
+        name,
+        basedOn: "Normal",
+        next: "Normal",
+        paragraph: {
+          indent: { left: QUOTE_INDENT_TWIPS, right: QUOTE_INDENT_TWIPS },
+          border: quoteBorder(color),
+          shading: { fill, type: ShadingType.CLEAR, color: "auto" },
+          spacing: { after: 0, line: 300 },
+        },
+      },
+      {
+        id: styleIdFromName(calloutTitleStyleName(type)),
+        name: calloutTitleStyleName(type),
+        basedOn: styleIdFromName(name),
+        next: styleIdFromName(name),
+        run: { bold: true, color },
+        paragraph: { spacing: { before: 120, after: 60 }, keepNext: true },
+      },
+    ];
+  }),
+];
+
+const HEADER_FOOTER_CONTENTS: HeaderFooterContent[] = ['none', 'title', 'page', 'page-of-total'];
+
+// Front matter keys that override conversion options for a single document
+const OPTION_KEYS = new Map<string, keyof DocxOptions>([
+  ...(Object.keys(DEFAULT_DOCX_OPTIONS) as (keyof DocxOptions)[]).map(key => [normalizeOptionKey(key), key] as [string, keyof DocxOptions]),
+  ['margin', 'margins'],
+  ['papersize', 'pageSize'],
+  // pandoc's names for the same switches
+  ['tableofcontents', 'toc'],
+  ['numbersections', 'numberedHeadings'],
+]);
+
+const OPTION_CHOICES: Partial<Record<keyof DocxOptions, string[]>> = {
+  codeTheme: Object.keys(CODE_THEMES),
+  theme: Object.keys(DOC_THEMES),
+  pageSize: Object.keys(PAGE_SIZES),
+  header: HEADER_FOOTER_CONTENTS,
+  footer: HEADER_FOOTER_CONTENTS,
+};
+
+// A bare number is taken as millimetres, anything else needs a unit (`2cm`, `1in`)
+const lengthToMm = (value: FrontMatterValue): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  if (/^\d*\.?\d+$/.test(value.trim())) return parseFloat(value);
+  const pixels = lengthToPixels(value);
+  return pixels === null ? null : pixels * 25.4 / 96;
+};
+
+const parseMargins = (value: FrontMatterValue): PageMargins | undefined => {
+  const margins = { ...DEFAULT_DOCX_OPTIONS.margins };
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const side of Object.keys(margins) as (keyof PageMargins)[]) {
+      if (value[side] === undefined) continue;
+      const mm = lengthToMm(value[side]);
+      if (mm === null) return undefined;
+      margins[side] = mm;
+    }
+    return margins;
+  }
+  const mm = lengthToMm(value);
+  return mm === null ? undefined : { top: mm, right: mm, bottom: mm, left: mm };
+};
+
+const frontMatterOptions = (data: FrontMatterData, onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void): Partial<DocxOptions> => {
+  const overrides: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    const option = OPTION_KEYS.get(normalizeOptionKey(key));
+    if (!option) continue;
+
+    let parsed: unknown;
+    if (option === 'margins') {
+      parsed = parseMargins(value);
+    } else if (typeof DEFAULT_DOCX_OPTIONS[option] === 'boolean') {
+      parsed = typeof value === 'boolean' ? value : undefined;
+    } else {
+      parsed = OPTION_CHOICES[option]?.find(choice => choice.toLowerCase() === String(value).toLowerCase());
+    }
+
+    if (parsed === undefined) {
+      onLog(`Ignored front matter option "${key}": ${JSON.stringify(value)}`, "warning");
+    } else {
+      overrides[option] = parsed;
+    }
+  }
+  return overrides as Partial<DocxOptions>;
+};
+
+/**
+ * The options a document is converted with: front matter options win over the UI
+ * settings, so a document can pin its own layout, and a theme's prescribed margins
+ * replace the defaults, though not margins someone chose.
+ */
+export const resolveDocxSettings = (
+  frontMatter: FrontMatterData | null,
+  options: Partial<DocxOptions>,
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void
+): { settings: DocxOptions; pinned: Partial<DocxOptions> } => {
+  const pinned = frontMatter ? frontMatterOptions(frontMatter, onLog) : {};
+  const settings: DocxOptions = { ...DEFAULT_DOCX_OPTIONS, ...options, ...pinned };
+  const theme = DOC_THEMES[settings.theme];
+  if (theme.margins && !pinned.margins && sameMargins(settings.margins, DEFAULT_DOCX_OPTIONS.margins)) {
+    settings.margins = theme.margins;
+  }
+  return { settings, pinned };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// docx always stamps the creation time with "now", so core.xml is written here
+// instead, letting a front matter `date` become the document's creation date.
+const buildCoreProperties = (metadata: DocumentMetadata, created: Date): string => {
+  const element = (name: string, value?: string) => value ? `<${name}>${escapeXml(value)}</${name}>` : '';
+  const timestamp = (name: string, date: Date) =>
+    `<${name} xsi:type="dcterms:W3CDTF">${date.toISOString().replace(/\.\d{3}Z$/, 'Z')}</${name}>`;
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<cp:coreProperties'
+    + ' xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"'
+    + ' xmlns:dc="http://purl.org/dc/elements/1.1/"'
+    + ' xmlns:dcterms="http://purl.org/dc/terms/"'
+    + ' xmlns:dcmitype="http://purl.org/dc/dcmitype/"'
+    + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + element('dc:title', metadata.title)
+    + element('dc:subject', metadata.subject)
+    + element('dc:creator', metadata.author)
+    + element('cp:keywords', metadata.keywords?.join(', '))
+    + element('dc:description', metadata.description)
+    + element('cp:lastModifiedBy', metadata.author)
+    + '<cp:revision>1</cp:revision>'
+    + timestamp('dcterms:created', created)
+    + timestamp('dcterms:modified', new Date())
+    + '</cp:coreProperties>';
+};
+
+// Title, Subtitle, Author and Date follow pandoc's reference-doc styles
+const buildTitleBlockStyles = (theme: DocTheme) => TITLE_BLOCK_STYLES.filter(name => name !== 'Title').map(name => ({
+  id: styleIdFromName(name),
+  name,
+  basedOn: "Normal",
+  next: "Normal",
+  run: name === 'Subtitle'
+    ? { size: Math.round(theme.titleSize * 0.6), color: theme.colors.muted }
+    : { size: theme.bodySize ? theme.bodySize + 2 : 24, color: theme.colors.text },
+  paragraph: { alignment: AlignmentType.CENTER, spacing: { before: name === 'Subtitle' ? 120 : 240, after: 120 } },
+}));
+
+const fontFamily = (latin?: string, eastAsia?: string) =>
+  latin || eastAsia ? { ascii: latin, hAnsi: latin, cs: latin, eastAsia: eastAsia || latin } : undefined;
+
+// Every style the renderer refers to, derived from the selected theme
+const buildDocumentStyles = (theme: DocTheme) => {
+  const line = theme.line && { line: theme.line.value, lineRule: theme.line.exact ? LineRuleType.EXACT : LineRuleType.AUTO };
+  const headingStyle = (level: number) => {
+    const { size, color, font, bold, italics, before, after } = theme.headings[level];
+    return {
+      run: {
+        size,
+        color,
+        bold,
+        italics,
+        font: font ? fontFamily(font) : fontFamily(theme.fonts.heading, theme.fonts.headingEastAsia),
+      },
+      paragraph: { spacing: { before, after }, keepNext: true, keepLines: true },
+    };
+  };
+
+  return {
+    default: {
+      document: {
+        run: { font: fontFamily(theme.fonts.body, theme.fonts.eastAsia), size: theme.bodySize, color: theme.colors.text },
+        paragraph: line ? { spacing: line } : undefined,
+      },
+      title: {
+        run: {
+          size: theme.titleSize,
+          bold: true,
+          color: theme.colors.title,
+          font: fontFamily(theme.fonts.title || theme.fonts.heading, theme.fonts.title || theme.fonts.headingEastAsia),
+        },
+      },
+      heading1: headingStyle(0),
+      heading2: headingStyle(1),
+      heading3: headingStyle(2),
+      heading4: headingStyle(3),
+      heading5: headingStyle(4),
+      heading6: headingStyle(5),
+      hyperlink: { run: { color: theme.colors.link, underline: { type: UnderlineType.SINGLE } } },
+    },
+    paragraphStyles: [
+      {
+        id: styleIdFromName(BODY_TEXT_STYLE_NAME),
+        name: BODY_TEXT_STYLE_NAME,
+        basedOn: "Normal",
+        next: styleIdFromName(BODY_TEXT_STYLE_NAME),
+        quickFormat: true,
+        paragraph: {
+          spacing: { after: theme.paragraphAfter },
+          indent: theme.firstLineIndent ? { firstLine: theme.firstLineIndent } : undefined,
+          alignment: theme.justify ? AlignmentType.JUSTIFIED : undefined,
+        },
+      },
+      {
+        id: styleIdFromName(SOURCE_CODE_STYLE_NAME),
+        name: SOURCE_CODE_STYLE_NAME,
+        basedOn: "Normal",
+        next: "Normal",
+        run: { font: fontFamily(theme.fonts.code), size: 18 },
+        paragraph: { spacing: { before: 0, after: 240, line: 320, lineRule: LineRuleType.AUTO } },
+      },
+      ...buildQuoteStyles(theme),
+      ...buildTitleBlockStyles(theme),
+      {
+        id: styleIdFromName(TOC_HEADING_STYLE_NAME),
+        name: TOC_HEADING_STYLE_NAME,
+        basedOn: "Heading1",
+        next: "Normal",
+        // Outline level 9 is body text, which keeps the heading out of the TOC itself
+        paragraph: { outlineLevel: 9 },
+      },
+      ...['Header', 'Footer'].map(name => ({
+        id: name,
+        name,
+        basedOn: "Normal",
+        run: { size: 18, color: theme.colors.muted },
+        paragraph: { alignment: AlignmentType.CENTER, spacing: { after: 0 } },
+      })),
+      {
+        id: styleIdFromName(BIBLIOGRAPHY_STYLE_NAME),
+        name: BIBLIOGRAPHY_STYLE_NAME,
+        basedOn: "Normal",
+        next: styleIdFromName(BIBLIOGRAPHY_STYLE_NAME),
+        paragraph: { indent: { left: 720, hanging: 720 }, spacing: { after: theme.paragraphAfter } },
+      },
+      {
+        id: styleIdFromName(CAPTION_STYLE_NAME),
+        name: CAPTION_STYLE_NAME,
+        basedOn: "Normal",
+        next: "Normal",
+        quickFormat: true,
+        run: { italics: true, size: 18, color: theme.colors.muted },
+        paragraph: { alignment: AlignmentType.CENTER, spacing: { before: 60, after: 200 } },
+      },
+    ],
+    characterStyles: [
+      {
+        id: styleIdFromName(VERBATIM_CHAR_STYLE_NAME),
+        name: VERBATIM_CHAR_STYLE_NAME,
+        basedOn: "DefaultParagraphFont",
+        run: {
+          font: fontFamily(theme.fonts.code),
+          color: theme.colors.code,
+          shading: { fill: theme.colors.codeFill, type: ShadingType.CLEAR, color: "auto" },
+        },
+      },
+    ],
+  };
+};
+
+// docx writes line breaks in attribute values as they are, and XML readers turn
+// those into spaces; diagram sources kept in image descriptions need them encoded.
+const encodeDescriptionLineBreaks = async (blob: Blob): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(blob);
+  const xml = await zip.file('word/document.xml')!.async('string');
+  zip.file('word/document.xml', xml.replace(/\sdescr="[^"]*"/g, attribute => attribute.replace(/\r?\n/g, '&#10;')));
+  return await zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    compression: 'DEFLATE',
+  });
+};
 
 export const convertToDocx = async (
   markdown: string, 
   images: Map<string, ArrayBuffer>,
-  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void,
+  options: Partial<DocxOptions> = {},
+  resources: DocxResources = {}
 ): Promise<Blob> => {
   onLog("Initializing DOCX engine...", "info");
-  
-  const tokens = marked.lexer(markdown);
-  const sections: any[] = [];
+
+  const { data: frontMatter, body } = splitFrontMatter(markdown);
+  const metadata: DocumentMetadata = frontMatter ? metadataFromFrontMatter(frontMatter) : {};
+  const { settings, pinned } = resolveDocxSettings(frontMatter, options, onLog);
+  if (frontMatter) {
+    onLog(`Front matter read: ${Object.keys(frontMatter).join(', ') || 'empty'}`, "info");
+  }
+  const theme = DOC_THEMES[settings.theme];
+
+  const reference = resources.referenceDoc ? await loadReferenceDoc(resources.referenceDoc) : undefined;
+  // The reference document's page setup is used unless the front matter sets one
+  const useReferencePage = reference?.page && !pinned.pageSize && !pinned.margins;
+  const layout = pageLayout(useReferencePage ? reference!.page! : settingsPage(settings));
+  if (reference) {
+    onLog(`Using reference document styles${useReferencePage ? ' and page setup' : ''}.`, "info");
+  }
+
+  const plugins = enabledPlugins(settings.disabledPlugins);
+  const parser = markdownParserFor(plugins);
+  const renderers = pluginRenderers(plugins);
+  const tokens = parser.lexer(body);
+  const numberingConfigs: any[] = settings.numberedHeadings ? [buildHeadingNumbering()] : [];
+
+  const bibliography = loadBibliography(resources.bibliography, frontMatter?.bibliography, images, onLog);
+
+  const diagrams = settings.diagrams
+    ? await renderDiagrams(tokens, renderDiagram, onLog)
+    : new Map<Token, { fence: DiagramFence; image: RenderedDiagram }>();
+
+  const { labels, footnoteDefinitions, tableCaptions, tocEntries, bookmarks } =
+    collectTargets(tokens, { numberedHeadings: settings.numberedHeadings, diagrams }, onLog);
+
+  const firstHeading = tokens.find((t): t is Tokens.Heading => t.type === 'heading' && t.depth === 1);
+  const documentTitle = metadata.title || (firstHeading && inlineText(firstHeading.tokens));
+  const captionTokens = new Set<Token>(tableCaptions.values());
+  const footnoteIds = new Map<string, number>();
+  const footnotes: Record<number, { children: any[] }> = {};
+  const citedKeys = new Set<string>();
+  let figureCount = 0;
+  let tableCount = 0;
+
+  // Inline images carry their own bytes; the declared MIME type must be one Word
+  // can embed and should agree with what the data actually is.
+  const resolveDataUri = (href: string): ArrayBuffer | undefined => {
+    const embedded = decodeDataUri(href);
+    if (!embedded) {
+      onLog(`Malformed data URI: ${describeImageSource(href)}`, "warning");
+      return undefined;
+    }
+
+    const declared = IMAGE_MIME_TYPES[embedded.mimeType];
+    if (!declared) {
+      onLog(`Unsupported data URI image type: ${embedded.mimeType}`, "warning");
+      return undefined;
+    }
+
+    const actual = readImageInfo(embedded.data)?.type;
+    if (!actual) {
+      onLog(`Data URI declared as ${embedded.mimeType} does not contain a readable image`, "warning");
+      return undefined;
+    }
+    if (actual !== declared) {
+      onLog(`Data URI declared as ${embedded.mimeType} actually contains ${actual.toUpperCase()} data`, "warning");
+    }
+    return embedded.data;
+  };
 
   const resolveImage = (href: string): ArrayBuffer | undefined => {
-    // 1. Try exact match (best for folder structures)
-    if (images.has(href)) return images.get(href);
-    
-    // 2. Try normalized path (remove leading ./ or /)
-    const normalized = href.replace(/^\.?\//, '');
-    if (images.has(normalized)) return images.get(normalized);
-    
-    // 3. Try filename only fallback
-    const fileName = href.split('/').pop() || '';
-    if (images.has(fileName)) return images.get(fileName);
-
-    // 4. Deep search (find any key ending with the requested path)
-    for (let [key, val] of images.entries()) {
-      if (key.endsWith(href) || key.endsWith(normalized)) return val;
-    }
-    
-    return undefined;
-  };
-
-  for (const token of tokens) {
-    switch (token.type) {
-      case 'heading':
-        sections.push(new Paragraph({
-          text: token.text,
-          heading: token.depth === 1 ? HeadingLevel.HEADING_1 : 
-                   token.depth === 2 ? HeadingLevel.HEADING_2 : 
-                   token.depth === 3 ? HeadingLevel.HEADING_3 : HeadingLevel.HEADING_4,
-          spacing: { before: 400, after: 200 }
-        }));
-        break;
-
-      case 'paragraph': {
-        const children: any[] = [];
-        
-        if (token.tokens) {
-          for (const subToken of token.tokens) {
-            if (subToken.type === 'image') {
-              const imgData = resolveImage(subToken.href);
-              
-              if (imgData) {
-                onLog(`Matched asset: ${subToken.href}`, "success");
-                children.push(new ImageRun({
-                  data: imgData,
-                  transformation: { width: 500, height: 300 },
-                }));
-              } else {
-                onLog(`Image link broken or missing: ${subToken.href}`, "warning");
-                children.push(new TextRun({ text: `\n[IMAGE NOT LOADED: ${subToken.href}]\n`, color: "FF0000", bold: true }));
-              }
-            } else if (subToken.type === 'link') {
-               children.push(new ExternalHyperlink({
-                 children: [new TextRun({ text: subToken.text, style: "Hyperlink", color: "0563C1", underline: {} })],
-                 link: subToken.href
-               }));
-            } else if (subToken.type === 'strong') {
-               children.push(new TextRun({ text: subToken.text, bold: true }));
-            } else if (subToken.type === 'em') {
-               children.push(new TextRun({ text: subToken.text, italic: true }));
-            } else if (subToken.type === 'codespan') {
-               children.push(new TextRun({ 
-                 text: subToken.text, 
-                 font: "Consolas", 
-                 shading: { fill: "F3F4F6" },
-                 color: "D11111"
-               }));
-            } else if (subToken.type === 'text') {
-               children.push(new TextRun(subToken.text || ''));
-            } else if (subToken.type === 'br') {
-               children.push(new TextRun({ break: 1 }));
-            }
-          }
-        } else {
-          children.push(new TextRun(token.text));
-        }
+    // Inline data: URIs are decoded directly
+    if (/^data:/i.test(href)) return resolveDataUri(href);
+    const key = findAssetKey(images, href);
+    return key === undefined ? undefined : images.get(key);
+  };
+
+  const renderImage = (image: SizedImage) => {
+    const source = describeImageSource(image.href);
+    const data = resolveImage(image.href);
+    if (!data) {
+      onLog(`Image link broken or missing: ${source}`, "warning");
+      return new TextRun({ text: `\n[IMAGE NOT LOADED: ${source}]\n`, color: "FF0000", bold: true });
+    }
+
+    const info = readImageInfo(data);
+    if (!info) {
+      onLog(`Unsupported image format: ${source}`, "warning");
+      return new TextRun({ text: `\n[UNSUPPORTED IMAGE: ${source}]\n`, color: "FF0000", bold: true });
+    }
+
+    onLog(`Matched asset: ${source}`, "success");
+    return imageRun(data, info, image.sizeHints || {}, {
+      name: /^data:/i.test(image.href) ? `image.${info.type}` : image.href.split('/').pop() || image.href,
+      description: image.text || undefined,
+      title: image.title || undefined,
+    });
+  };
+
+  const imageRun = (
+    data: ArrayBuffer,
+    info: { type: ImageType; width: number; height: number },
+    sizeHints: ImageSizeHints,
+    altText: { name: string; description?: string; title?: string }
+  ) => {
+    const transformation = fitImageSize(
+      info,
+      sizeHints,
+      Math.floor(layout.contentWidth / TWIPS_PER_PIXEL),
+      Math.floor(layout.contentHeight / TWIPS_PER_PIXEL)
+    );
+    return info.type === 'svg'
+      ? new ImageRun({ type: 'svg', data, transformation, altText, fallback: { type: 'png', data: TRANSPARENT_PNG } })
+      : new ImageRun({ type: info.type, data, transformation, altText });
+  };
+
+  // A standalone image is centred and, when it has alt text, captioned
+  const renderFigure = (image: SizedImage): Paragraph[] => {
+    const run = renderImage(image);
+    return renderFigureBlock(run, run instanceof ImageRun ? image.text : '', image.label);
+  };
 
-        sections.push(new Paragraph({ children, spacing: { after: 150 } }));
-        break;
+  const renderFigureBlock = (run: ImageRun | TextRun, caption: string, label?: string): Paragraph[] => {
+    const figure = new Paragraph({
+      children: [run],
+      alignment: AlignmentType.CENTER,
+      keepNext: !!caption,
+      spacing: { before: 120, after: caption ? 0 : 150 },
+    });
+    return caption ? [figure, renderCaption(FIGURE_LABEL, [new TextRun(`: ${caption}`)], label)] : [figure];
+  };
+
+  // The fence goes into the image description, so the diagram can be edited again as code
+  const renderDiagramFigure = ({ fence, image }: { fence: DiagramFence; image: RenderedDiagram }): Paragraph[] =>
+    renderFigureBlock(imageRun(image.data, image, fence.sizeHints, {
+      name: `${fence.language}-diagram.${image.type}`,
+      description: fence.markdown,
+      title: fence.caption,
+    }), fence.caption || '', fence.label);
+
+  // Numbered with a SEQ field so Word keeps the count right when figures move;
+  // the cached value means it reads correctly before any field update. A labelled
+  // caption bookmarks its "Figure N" so cross-references can REF it.
+  const renderCaption = (kind: string, text: ParagraphChild[], label?: string) => {
+    const count = kind === TABLE_LABEL ? ++tableCount : ++figureCount;
+    const number = [new TextRun(`${kind} `), new SimpleField(`SEQ ${kind} \\* ARABIC`, String(count))];
+    const target = label && labels.get(label);
+    return new Paragraph({
+      style: styleIdFromName(CAPTION_STYLE_NAME),
+      keepNext: kind === TABLE_LABEL,
+      children: [target ? new Bookmark({ id: target.bookmark, children: number }) : number, text].flat(),
+    });
+  };
+
+  // `@fig:x` becomes a REF field to the target's bookmark, cached with its current text
+  const renderCrossReference = (item: CitationItem, props: IRunOptions): ParagraphChild[] => {
+    const target = labels.get(item.key);
+    if (!target) {
+      onLog(`Unknown cross-reference: @${item.key}`, "warning");
+      return [new TextRun({ ...props, text: '??', bold: true })];
+    }
+    const prefix = [item.prefix, target.prefix.trim()].filter(Boolean).join(' ');
+    return [
+      ...(prefix ? [new TextRun({ ...props, text: `${prefix} ` })] : []),
+      new SimpleField(`REF ${target.bookmark} ${target.field}`, target.cached),
+      ...(item.suffix ? [new TextRun({ ...props, text: `, ${item.suffix}` })] : []),
+    ];
+  };
+
+  const renderCitation = (token: CitationToken, props: IRunOptions): ParagraphChild[] => {
+    if (token.items.every(item => labelKind(item.key))) {
+      return token.items.flatMap((item, index) => [
+        ...(index === 0 ? [] : [new TextRun({ ...props, text: index === token.items.length - 1 ? ' and ' : ', ' })]),
+        ...renderCrossReference(item, props),
+      ]);
+    }
+
+    const cited = token.items.map(item => ({ item, entry: bibliography.get(item.key) }));
+    const missing = cited.filter(({ entry }) => !entry).map(({ item }) => `@${item.key}`);
+    if (missing.length) {
+      // A bare @name without any bibliography is most likely just text
+      if (token.bracketed || bibliography.size) onLog(`Citation not found in the bibliography: ${missing.join(', ')}`, "warning");
+      return [new TextRun({ ...props, text: token.raw })];
+    }
+
+    cited.forEach(({ item }) => citedKeys.add(item.key));
+    const resolved = cited as { item: CitationItem; entry: BibEntry }[];
+    const text = token.bracketed ? formatCitation(resolved) : formatNarrativeCitation(resolved[0].item, resolved[0].entry);
+    return [new TextRun({ ...props, text })];
+  };
+
+  // Footnotes are numbered in order of first reference; a note referenced twice
+  // shares its number.
+  // The footnote whose text is being rendered; Word has no footnotes inside footnotes
+  let openFootnote: string | undefined;
+
+  const renderFootnote = (label: string): number | undefined => {
+    if (openFootnote !== undefined) {
+      onLog(`Footnote [^${openFootnote}] refers to [^${label}]; Word can't nest footnotes, so the reference is kept as text.`, "warning");
+      return undefined;
+    }
+    if (footnoteIds.has(label)) return footnoteIds.get(label);
+    const definition = footnoteDefinitions.get(label);
+    if (!definition) {
+      onLog(`Footnote [^${label}] has no definition.`, "warning");
+      return undefined;
+    }
+    const id = footnoteIds.size + 1;
+    footnoteIds.set(label, id);
+    openFootnote = label;
+    const children = definition.tokens.flatMap((token: Token) => token.type === 'paragraph'
+      ? [new Paragraph({ style: "FootnoteText", children: renderInline(token.tokens || []) })]
+      : renderBlocks([token]));
+    openFootnote = undefined;
+    footnotes[id] = { children: children.length ? children : [new Paragraph({ style: "FootnoteText" })] };
+    return id;
+  };
+
+  // As in pandoc, the list gets a heading of its own only when `reference-section-title`
+  // names one; otherwise it follows whatever heading the document ends with
+  const renderBibliography = (withHeading: boolean): any[] => {
+    const entries = [...citedKeys].map(key => bibliography.get(key)!).sort(compareEntries);
+    const title = typeof frontMatter?.['reference-section-title'] === 'string' ? frontMatter['reference-section-title'] : undefined;
+    return [
+      ...(withHeading && title ? [new Paragraph({ text: title, heading: HeadingLevel.HEADING_1 })] : []),
+      ...entries.map(entry => new Paragraph({
+        style: styleIdFromName(BIBLIOGRAPHY_STYLE_NAME),
+        children: [new Bookmark({
+          id: bookmarkName(`ref:${entry.id}`, bookmarks),
+          children: formatReference(entry).map(part => new TextRun(part)),
+        })],
+      })),
+    ];
+  };
+
+  // Equations Word can't represent fall back to their highlighted LaTeX source
+  const renderMath = (latex: string, inline: boolean) => {
+    const { math, error } = latexToDocxMath(latex);
+    if (math) return math;
+
+    onLog(`Equation kept as LaTeX source (${error}): ${latex}`, "warning");
+    const source = inline ? `$${latex}$` : `$$${latex}$$`;
+    return new TextRun({ ...VERBATIM_RUN, text: source, highlight: "yellow" });
+  };
+
+  // Walks marked's inline token tree, accumulating run properties on the way down so
+  // nested constructs such as `**bold _and italic_**` or a bold link combine correctly.
+  const renderInline = (inlineTokens: any[], base: IRunOptions = {}): ParagraphChild[] => {
+    const children: ParagraphChild[] = [];
+    // Inline HTML arrives as separate open/close tokens around the content they style
+    const htmlStack: { tag: string; props: IRunOptions }[] = [];
+    const currentProps = (): IRunOptions =>
+      htmlStack.reduce((props, entry) => ({ ...props, ...entry.props }), base);
+    const styles: InlineStyles = {
+      open: (tag, props) => htmlStack.push({ tag, props }),
+      close: tag => {
+        const index = htmlStack.map(entry => entry.tag).lastIndexOf(tag);
+        if (index !== -1) htmlStack.splice(index);
+      },
+    };
+
+    for (const subToken of attachSizeHints(inlineTokens)) {
+      const props = currentProps();
+      const render = renderers.inlines[subToken.type];
+      if (render) {
+        children.push(...render(subToken, context, props, styles));
+      } else if (subToken.tokens) {
+        // Block tokens (e.g. paragraphs inside a blockquote) flatten to their inline content
+        children.push(...renderInline(subToken.tokens, props));
+      } else if (subToken.text) {
+        children.push(new TextRun({ ...props, text: decodeEntities(subToken.text) }));
+      }
+    }
+
+    return children;
+  };
+
+  const renderList = (list: Tokens.List, depth: number): DocxBlock[] => {
+    const reference = `list-${numberingConfigs.length + 1}`;
+    const start = typeof list.start === 'number' ? list.start : 1;
+    numberingConfigs.push(buildListNumbering(reference, list.ordered, start, depth));
+
+    const itemIndent = { left: LIST_INDENT_TWIPS * (depth + 1), hanging: LIST_HANGING_TWIPS };
+    const blocks: DocxBlock[] = [];
+
+    for (const item of list.items) {
+      // Loose items wrap their text in paragraphs, tight ones in bare text tokens
+      const [lead, ...rest] = item.tokens.filter(t => t.type !== 'checkbox' && t.type !== 'space');
+      const leadIsText = lead && (lead.type === 'text' || lead.type === 'paragraph');
+      const children = leadIsText ? renderInline(lead.tokens || [lead]) : [];
+
+      if (item.task) {
+        children.unshift(new TextRun({ text: item.checked ? '\u2612 ' : '\u2610 ', font: TASK_BOX_FONT }));
       }
 
-      case 'list':
-        token.items.forEach((item: any) => {
-          sections.push(new Paragraph({
-            text: item.text,
-            bullet: { level: 0 },
-            spacing: { after: 100 }
+      // Unordered task items show the checkbox in place of the bullet
+      blocks.push(new Paragraph({
+        children,
+        ...(item.task && !list.ordered
+          ? { indent: itemIndent }
+          : { numbering: { reference, level: depth } }),
+        spacing: { after: item.loose ? theme.paragraphAfter : 60 },
+      }));
+
+      for (const child of leadIsText ? rest : [lead, ...rest].filter(Boolean)) {
+        if (child.type === 'list') {
+          blocks.push(...renderList(child as Tokens.List, depth + 1));
+        } else if (child.type === 'text' || child.type === 'paragraph') {
+          blocks.push(new Paragraph({
+            children: renderInline(child.tokens || [child]),
+            indent: { left: itemIndent.left },
+            spacing: { after: theme.paragraphAfter },
           }));
-        });
-        break;
-
-      case 'code': {
-        const lines = token.text.split('\n');
-        const codeRuns = lines.map((line, index) => new TextRun({
-          text: line,
-          font: "Consolas",
-          size: 18,
-          break: index > 0 ? 1 : 0,
-        }));
+        } else {
+          blocks.push(...renderBlocks([child]));
+        }
+      }
+    }
 
-        sections.push(new Paragraph({
-          children: codeRuns,
-          shading: { fill: "F8F9FA" },
-          border: {
-            top: { color: "E2E8F0", space: 8, style: BorderStyle.SINGLE, size: 4 },
-            bottom: { color: "E2E8F0", space: 8, style: BorderStyle.SINGLE, size: 4 },
-            left: { color: "E2E8F0", space: 8, style: BorderStyle.SINGLE, size: 4 },
-            right: { color: "E2E8F0", space: 8, style: BorderStyle.SINGLE, size: 4 },
-          },
-          spacing: { before: 240, after: 240, line: 320 },
-          indent: { left: 240, right: 240 },
+    return blocks;
+  };
+
+  // Blockquote paragraphs carry the Quote (or Callout) paragraph style so the Word
+  // to Markdown direction can recognise them; nesting is expressed as extra indent.
+  const renderQuote = (quote: Tokens.Blockquote, depth: number): DocxBlock[] => {
+    const [firstLine, ...restLines] = quote.text.split('\n');
+    const marker = firstLine.trim().match(CALLOUT_MARKER);
+    const calloutType = marker ? marker[1].toUpperCase() as CalloutType : null;
+    const innerTokens = calloutType ? parser.lexer(restLines.join('\n')) : quote.tokens;
+    const styleName = calloutType ? calloutStyleName(calloutType) : QUOTE_STYLE_NAME;
+    const indent = { left: QUOTE_INDENT_TWIPS * depth, right: calloutType ? QUOTE_INDENT_TWIPS : undefined };
+    const blocks: DocxBlock[] = [];
+
+    if (calloutType) {
+      blocks.push(new Paragraph({
+        text: marker![2] || CALLOUT_STYLES[calloutType].label,
+        style: styleIdFromName(calloutTitleStyleName(calloutType)),
+        indent,
+      }));
+    }
+
+    for (const child of innerTokens) {
+      if (child.type === 'paragraph' || child.type === 'text') {
+        blocks.push(new Paragraph({
+          children: renderInline(child.tokens || [child]),
+          style: styleIdFromName(styleName),
+          indent,
         }));
-        break;
+      } else if (child.type === 'blockquote') {
+        blocks.push(...renderQuote(child as Tokens.Blockquote, depth + 1));
+      } else if (child.type !== 'space') {
+        blocks.push(...renderBlocks([child]));
       }
+    }
 
-      case 'hr':
-        sections.push(new Paragraph({
-          border: { bottom: { color: "CBD5E1", space: 1, style: BorderStyle.SINGLE, size: 6 } },
-          spacing: { before: 200, after: 200 }
-        }));
-        break;
+    // Close the callout box with a little padding below the last line
+    if (calloutType) {
+      blocks.push(new Paragraph({ style: styleIdFromName(styleName), indent, spacing: { after: 200 } }));
+    }
 
-      default:
-        if (token.text) {
-          sections.push(new Paragraph({ text: token.text }));
-        }
+    return blocks;
+  };
+
+  const renderCode = (code: Tokens.Code): DocxBlock[] => {
+    const palette = CODE_THEMES[settings.codeTheme];
+    const lang = (code.lang || '').trim().split(/\s+/)[0];
+    const lines = highlightCode(code.text, lang);
+    const gutterWidth = String(lines.length).length;
+
+    const codeRuns = lines.flatMap((line, index) => [
+      ...(settings.codeLineNumbers
+        ? [new TextRun({
+            text: `${String(index + 1).padStart(gutterWidth)}  `,
+            color: palette.lineNumber,
+            break: index > 0 ? 1 : 0,
+          })]
+        : []),
+      // An empty run keeps blank lines (and the line break) in place
+      ...(line.length > 0 ? line : [{ text: '', kind: 'plain' as const }]).map((part, partIndex) => new TextRun({
+        text: part.text,
+        color: palette.colors[part.kind],
+        italics: part.kind === 'comment' || undefined,
+        break: index > 0 && partIndex === 0 && !settings.codeLineNumbers ? 1 : 0,
+      })),
+    ]);
+
+    // Paragraphs with identical borders merge into a single box in Word
+    const frame = {
+      shading: { fill: palette.background, type: ShadingType.CLEAR, color: "auto" },
+      border: {
+        top: { color: palette.border, space: 8, style: BorderStyle.SINGLE, size: 4 },
+        bottom: { color: palette.border, space: 8, style: BorderStyle.SINGLE, size: 4 },
+        left: { color: palette.border, space: 8, style: BorderStyle.SINGLE, size: 4 },
+        right: { color: palette.border, space: 8, style: BorderStyle.SINGLE, size: 4 },
+      },
+      indent: { left: 240, right: 240 },
+    };
+    const showCaption = settings.codeLanguageCaption && lang !== '';
+    const blocks: DocxBlock[] = [];
+
+    if (showCaption) {
+      blocks.push(new Paragraph({
+        ...frame,
+        keepNext: true,
+        spacing: { before: 240, after: 80 },
+        children: [new TextRun({ text: languageLabel(lang), font: fontFamily(theme.fonts.code), size: 16, bold: true, color: palette.caption })],
+      }));
+    }
+
+    blocks.push(new Paragraph({
+      ...frame,
+      style: styleIdFromName(SOURCE_CODE_STYLE_NAME),
+      children: codeRuns,
+      spacing: { before: showCaption ? 0 : 240 },
+    }));
+    return blocks;
+  };
+
+  const renderBlocks = (blockTokens: Token[]): DocxBlock[] => {
+    const blocks: DocxBlock[] = [];
+
+    for (const token of blockTokens) {
+      const render = renderers.blocks[token.type];
+      if (render) {
+        blocks.push(...render(token, context));
+      } else if ('tokens' in token && token.tokens) {
+        blocks.push(new Paragraph({ children: renderInline(token.tokens), style: styleIdFromName(BODY_TEXT_STYLE_NAME) }));
+      } else if ('text' in token && token.text) {
+        blocks.push(new Paragraph({ text: token.text }));
+      }
     }
+
+    return blocks;
+  };
+
+  const renderPageBreak = () => new Paragraph({ children: [new PageBreak()] });
+
+  const context: DocxRenderContext = {
+    settings,
+    theme,
+    contentWidth: layout.contentWidth,
+    onLog,
+    renderBlocks,
+    renderInline,
+    renderImage,
+    renderFigure,
+    renderCaption,
+    renderList,
+    renderQuote,
+    renderCode: code => {
+      const diagram = diagrams.get(code);
+      return diagram ? renderDiagramFigure(diagram) : renderCode(code);
+    },
+    renderMath,
+    renderFootnote,
+    renderCitation,
+    renderPageBreak,
+    labels,
+    tableCaption: table => tableCaptions.get(table),
+    isTableCaption: token => captionTokens.has(token),
+    bibliographyPlaceholder: BIBLIOGRAPHY_PLACEHOLDER,
+  };
+
+  const renderTitlePage = (): Paragraph[] => {
+    const lines: [string, string | undefined][] = [
+      ['Subtitle', metadata.subtitle || metadata.subject],
+      ['Author', metadata.author],
+      ['Date', metadata.date],
+    ];
+    return [
+      new Paragraph({
+        heading: HeadingLevel.TITLE,
+        alignment: AlignmentType.CENTER,
+        spacing: { before: Math.round(layout.contentHeight / 4), after: 240 },
+        text: metadata.title || '',
+      }),
+      ...lines
+        .filter(([, text]) => text)
+        .map(([style, text]) => new Paragraph({ style: styleIdFromName(style), text })),
+    ];
+  };
+
+  const renderTableOfContents = (): any[] => [
+    new Paragraph({ text: TOC_TITLE, style: styleIdFromName(TOC_HEADING_STYLE_NAME) }),
+    new TableOfContents(TOC_TITLE, { hyperlink: true, headingStyleRange: `1-${TOC_DEPTH}`, cachedEntries: tocEntries }),
+    renderPageBreak(),
+  ];
+
+  // With a title page the body restarts at page 1, so "of Y" counts the body section only
+  const renderPageFurniture = (content: HeaderFooterContent, style: 'Header' | 'Footer'): Paragraph | undefined => {
+    if (content === 'none') return undefined;
+    if (content === 'title' && !documentTitle) {
+      onLog(`${style} set to show the title, but the document has none.`, "warning");
+      return undefined;
+    }
+    const total = settings.titlePage ? PageNumber.TOTAL_PAGES_IN_SECTION : PageNumber.TOTAL_PAGES;
+    const children = content === 'title' ? [documentTitle!]
+      : content === 'page' ? [PageNumber.CURRENT]
+      : ['Page ', PageNumber.CURRENT, ' of ', total];
+    return new Paragraph({ style, children: [new TextRun({ children })] });
+  };
+
+  // docx writes landscape pages by swapping a portrait size back round
+  const landscape = layout.size.width > layout.size.height;
+  const properties = {
+    page: {
+      size: landscape
+        ? { width: layout.size.height, height: layout.size.width, orientation: PageOrientation.LANDSCAPE }
+        : { width: layout.size.width, height: layout.size.height },
+      margin: layout.margin,
+    },
+  };
+
+  // The reference list goes where the document asks for it, or else at the end
+  const renderBody = (): any[] => {
+    const children = [...(settings.toc ? renderTableOfContents() : []), ...renderBlocks(tokens)];
+    const placeholder = children.indexOf(BIBLIOGRAPHY_PLACEHOLDER);
+    if (placeholder >= 0) {
+      children.splice(placeholder, 1, ...renderBibliography(false));
+    } else if (citedKeys.size) {
+      children.push(...renderBibliography(true));
+    }
+
+    const unused = [...footnoteDefinitions.keys()].filter(label => !footnoteIds.has(label));
+    if (unused.length) onLog(`Footnote definitions never referenced: ${unused.map(label => `[^${label}]`).join(', ')}`, "warning");
+    if (citedKeys.size) onLog(`Formatted ${citedKeys.size} reference(s) from the bibliography.`, "success");
+    return children;
+  };
+
+  const header = renderPageFurniture(settings.header, 'Header');
+  const footer = renderPageFurniture(settings.footer, 'Footer');
+  const sections: ISectionOptions[] = [{
+    properties: settings.titlePage ? { page: { ...properties.page, pageNumbers: { start: 1 } } } : properties,
+    headers: header && { default: new Header({ children: [header] }) },
+    footers: footer && { default: new Footer({ children: [footer] }) },
+    children: renderBody(),
+  }];
+  if (settings.titlePage) {
+    if (!metadata.title) onLog("Title page requested but the front matter has no title.", "warning");
+    // Its own section, so the body always starts on a fresh page
+    sections.unshift({ properties, children: renderTitlePage() });
   }
 
   const doc = new Document({
-    sections: [{
-      properties: {},
-      children: sections,
-    }],
+    styles: buildDocumentStyles(theme),
+    numbering: { config: numberingConfigs },
+    footnotes,
+    // Asks Word to fill in TOC page numbers and cross-references when the file is opened
+    features: settings.toc || labels.size ? { updateFields: true } : undefined,
+    sections,
   });
 
+  let created = new Date();
+  if (metadata.date) {
+    const parsed = new Date(metadata.date);
+    if (isNaN(parsed.getTime())) onLog(`Front matter date "${metadata.date}" is not a recognised date.`, "warning");
+    else created = parsed;
+  }
+
   onLog("Finalizing DOCX binary data...", "info");
-  return await Packer.toBlob(doc);
+  const blob = await Packer.toBlob(doc, false, [
+    { path: 'docProps/core.xml', data: buildCoreProperties(metadata, created) },
+  ]);
+  const packed = diagrams.size ? await encodeDescriptionLineBreaks(blob) : blob;
+  return reference ? await applyReferenceDoc(packed, reference) : packed;
 };
@@ -0,0 +1,168 @@
+import { DocumentMetadata } from '../types';
+
+// A deliberately small YAML reader for front matter: scalars, quoted strings,
+// flow lists `[a, b]`, block lists, one level of nested maps and `|` / `>`
+// block scalars. That covers what people put at the top of a Markdown file
+// without pulling a full YAML parser into the bundle.
+
+export type FrontMatterValue = string | number | boolean | null | FrontMatterValue[] | FrontMatterData;
+export interface FrontMatterData {
+  [key: string]: FrontMatterValue;
+}
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const stripComment = (line: string): string => {
+  let quote = '';
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+  return line;
+};
+
+const splitFlowList = (inner: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  let quote = '';
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+const parseScalar = (raw: string): FrontMatterValue => {
+  const value = raw.trim();
+  if (value.startsWith('[') && value.endsWith(']')) return splitFlowList(value.slice(1, -1)).map(parseScalar);
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  if (/^(true|yes|on)$/i.test(value)) return true;
+  if (/^(false|no|off)$/i.test(value)) return false;
+  if (/^(null|~)?$/i.test(value)) return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+};
+
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+
+const parseBlock = (lines: string[], start: number, indent: number): [FrontMatterData, number] => {
+  const data: FrontMatterData = {};
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+    if (indentOf(line) < indent) break;
+
+    const entry = line.trim().match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+    if (!entry) { i++; continue; }
+    const key = entry[1].replace(/^["']|["']$/g, '');
+    const rest = (entry[2] || '').trim();
+    i++;
+
+    if (/^[|>][+-]?$/.test(rest)) {
+      // Block scalar: `|` keeps line breaks, `>` folds them into spaces
+      const block: string[] = [];
+      while (i < lines.length && (!lines[i].trim() || indentOf(lines[i]) > indent)) block.push(lines[i++]);
+      const depth = Math.min(...block.filter(l => l.trim()).map(indentOf));
+      const text = block.map(l => l.slice(depth)).join('\n').trim();
+      data[key] = rest.startsWith('|') ? text : text.replace(/([^\n])\n(?=[^\n])/g, '$1 ');
+    } else if (rest) {
+      data[key] = parseScalar(rest);
+    } else if (i < lines.length && lines[i].trim().startsWith('- ')) {
+      const items: FrontMatterValue[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('- ')) items.push(parseScalar(lines[i++].trim().slice(2)));
+      data[key] = items;
+    } else if (i < lines.length && indentOf(lines[i]) > indent) {
+      const [nested, next] = parseBlock(lines, i, indentOf(lines[i]));
+      data[key] = nested;
+      i = next;
+    } else {
+      data[key] = null;
+    }
+  }
+
+  return [data, i];
+};
+
+/** Splits a leading `---` front matter block off the document. */
+export const splitFrontMatter = (markdown: string): { data: FrontMatterData | null; body: string } => {
+  const match = markdown.match(FRONT_MATTER);
+  if (!match) return { data: null, body: markdown };
+
+  const lines = match[1].split(/\r?\n/).map(stripComment);
+  const [data] = parseBlock(lines, 0, 0);
+  return { data, body: markdown.slice(match[0].length) };
+};
+
+const formatScalar = (value: FrontMatterValue): string => {
+  if (value === null) return '';
+  if (typeof value !== 'string') return String(value);
+  // Quote anything YAML would otherwise read as another type or as syntax
+  return /^[\s\-?:,[\]{}#&*!|>'"%@`]|: | #|^(true|false|yes|no|on|off|null|~|-?\d+(\.\d+)?)$|\s$|^$/i.test(value)
+    ? JSON.stringify(value)
+    : value;
+};
+
+/** Serializes flat front matter data back into a `---` block. */
+export const stringifyFrontMatter = (data: FrontMatterData): string => {
+  const lines = Object.entries(data).flatMap(([key, value]) => {
+    if (Array.isArray(value)) return [`${key}: [${value.map(formatScalar).join(', ')}]`];
+    if (value && typeof value === 'object') {
+      return [`${key}:`, ...Object.entries(value).map(([k, v]) => `  ${k}: ${formatScalar(v)}`)];
+    }
+    if (typeof value === 'string' && value.includes('\n')) {
+      return [`${key}: |`, ...value.split('\n').map(line => `  ${line}`)];
+    }
+    return [`${key}: ${formatScalar(value)}`];
+  });
+  return `---\n${lines.join('\n')}\n---\n\n`;
+};
+
+const text = (value: FrontMatterValue | undefined): string | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) return value.map(text).filter(Boolean).join('; ') || undefined;
+  if (typeof value === 'object') return undefined;
+  return String(value).trim() || undefined;
+};
+
+const list = (value: FrontMatterValue | undefined): string[] | undefined => {
+  if (Array.isArray(value)) return value.map(text).filter((item): item is string => !!item);
+  return text(value)?.split(/[,;]\s*/).filter(Boolean);
+};
+
+/** Picks the document properties out of front matter, accepting pandoc's common aliases. */
+export const metadataFromFrontMatter = (data: FrontMatterData): DocumentMetadata => ({
+  title: text(data.title),
+  subtitle: text(data.subtitle),
+  author: text(data.author ?? data.authors),
+  subject: text(data.subject),
+  keywords: list(data.keywords ?? data.tags),
+  date: text(data.date),
+  description: text(data.description ?? data.abstract),
+});
+
+// Option keys may be written as `title-page`, `title_page` or `titlePage`
+export const normalizeOptionKey = (key: string) => key.replace(/[-_\s]/g, '').toLowerCase();
@@ -0,0 +1,281 @@
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { languageFromLabel } from './codeHighlighter';
+
+// Writes the HTML mammoth makes of a Word document as Markdown. Text is escaped
+// only where it would otherwise turn into Markdown syntax, code is copied as is,
+// tables become pipe tables unless cells are merged, and lists keep their nesting.
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const HEADING = /^h([1-6])$/;
+// mammoth writes a note reference as <sup><a href="#footnote-1" id="footnote-ref-1">
+// and the notes themselves as a list of <li id="footnote-1"> closed by a ↑ back link
+const NOTE_TARGET = /^#(foot|end)note-(\d+)$/;
+const NOTE_BACK_LINK = /^#(foot|end)note-ref-\d+$/;
+const NOTE_ITEM = /^(foot|end)note-(\d+)$/;
+// Cells holding any of these cannot be written as a pipe table
+const COMPLEX_CELL_CONTENT = /^(ul|ol|table|pre|blockquote|h[1-6])$/;
+// A header cell's align attribute sets its column's alignment
+const ALIGNMENT_RULES: Record<string, string> = { left: ':---', center: ':---:', right: '---:' };
+
+interface Context {
+  notes: string[];
+  inTable: boolean;
+}
+
+const noteLabel = (kind: string, id: string) => kind === 'end' ? `e${id}` : id;
+
+const elementChildren = (node: Node): Element[] =>
+  Array.from(node.childNodes).filter((child): child is Element => child.nodeType === ELEMENT_NODE);
+
+const isBlock = (node: Node) =>
+  node.nodeType === ELEMENT_NODE && /^(p|h[1-6]|ul|ol|li|table|pre|blockquote|div|dl|dt|dd|hr)$/.test((node as Element).localName);
+
+// ---------------------------------------------------------------------------
+// Inline content
+// ---------------------------------------------------------------------------
+
+/** Escapes text so that it reads as itself, not as Markdown syntax. */
+export const escapeMarkdownText = (text: string): string => {
+  const repeated = (char: string) => text.split(char).length > 2;
+  return text
+    .replace(/[\\`*]/g, '\\$&')
+    // Inside a word an underscore is just a character
+    .replace(/_/g, (match, offset: number, escaped: string) =>
+      /[^\W_]/.test(escaped[offset - 1] || '') && /[^\W_]/.test(escaped[offset + 1] || '') ? match : '\\_')
+    // Brackets only matter where they would open a link, footnote or citation
+    .replace(/\[(?=\^|[^\[\]\n]*@[^\[\]\n]*\]|[^\[\]\n]*\][(\[:])/g, '\\[')
+    .replace(/<(?=[a-zA-Z\/!?])/g, '\\<')
+    .replace(/&(?=#?\w+;)/g, '&amp;')
+    // A bare @name would be read as a citation
+    .replace(/(?<![\w.@\\-])(-?)@(?=\w)/g, '$1\\@')
+    .replace(/\$/g, match => repeated('$') ? '\\$' : match)
+    .replace(/~/g, match => repeated('~') ? '\\~' : match);
+};
+
+// Text at the start of a line that would open a heading, quote, list or rule
+const escapeLineStart = (line: string): string =>
+  line
+    .replace(/^(\s*)([#>+-])(?=\s|$)/, '$1\\$2')
+    .replace(/^(\s*)>/, '$1\\>')
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2')
+    .replace(/^(\s*)(=+|-+)\s*$/, '$1\\$2');
+
+const codeSpan = (code: string): string => {
+  const text = code.replace(/\n/g, ' ');
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const padding = /^`|`$/.test(text) || (/^ .*[^ ].* $/.test(text)) ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+// Emphasis markers cannot sit next to the spaces they enclose
+const wrap = (marker: string, inner: string): string => {
+  if (!inner.trim()) return inner;
+  const [, lead, text, trail] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return `${lead}${marker}${text}${marker}${trail}`;
+};
+
+const linkTarget = (href: string) => /[\s()<>]/.test(href) ? `<${href.replace(/[<>]/g, encodeURIComponent)}>` : href;
+
+const inline = (nodes: Node[], context: Context): string => nodes.map(node => inlineNode(node, context)).join('');
+
+const inlineNode = (node: Node, context: Context): string => {
+  if (node.nodeType === TEXT_NODE) return escapeMarkdownText(node.nodeValue || '');
+  if (node.nodeType !== ELEMENT_NODE) return '';
+  const element = node as Element;
+  const children = () => inline(Array.from(element.childNodes), context);
+
+  switch (element.localName) {
+    case 'strong':
+    case 'b':
+      return wrap('**', children());
+    case 'em':
+    case 'i':
+      return wrap('*', children());
+    case 's':
+    case 'del':
+      return wrap('~~', children());
+    case 'code':
+      return codeSpan(element.textContent || '');
+    case 'sub':
+      return `<sub>${children()}</sub>`;
+    case 'sup': {
+      const reference = elementChildren(element).find(child => child.localName === 'a' && NOTE_TARGET.test(child.getAttribute('href') || ''));
+      return reference ? inlineNode(reference, context) : `<sup>${children()}</sup>`;
+    }
+    case 'br':
+      return context.inTable ? '<br>' : '\\\n';
+    case 'img': {
+      const alt = (element.getAttribute('alt') || '').replace(/[\[\]\\]/g, '\\$&').replace(/\n/g, ' ');
+      return `![${alt}](${linkTarget(element.getAttribute('src') || '')})`;
+    }
+    case 'a': {
+      const href = element.getAttribute('href') || '';
+      const note = href.match(NOTE_TARGET);
+      if (note) return `[^${noteLabel(note[1], note[2])}]`;
+      if (NOTE_BACK_LINK.test(href)) return '';
+      if (!href) {
+        // Bookmarks whose names start with an underscore are hidden in Word
+        // (cross-reference targets, `_Toc`, `_GoBack`), so they are only noise here
+        const id = element.getAttribute('id');
+        return (id && !id.startsWith('_') ? `<a id="${id}"></a>` : '') + children();
+      }
+      const text = children();
+      if (!text.trim()) return '';
+      return text === escapeMarkdownText(href) && /^[a-z]+:/i.test(href) ? `<${href}>` : `[${text}](${linkTarget(href)})`;
+    }
+    default:
+      return children();
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+const paragraph = (nodes: Node[], context: Context): string => {
+  const text = inline(nodes, context).replace(/^\s+/, '').replace(/(?:\\\n|\s)+$/, '');
+  return text.split('\n').map(escapeLineStart).join('\n');
+};
+
+const codeBlock = (element: Element, lang: string): string => {
+  const text = Array.from(element.childNodes).map(node =>
+    node.nodeType === ELEMENT_NODE && (node as Element).localName === 'br' ? '\n' : node.textContent || ''
+  ).join('').replace(/\n$/, '');
+  const longest = Math.max(0, ...(text.match(/^ {0,3}`+/gm) || []).map(run => run.trim().length));
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}${lang}\n${text}\n${fence}`;
+};
+
+const list = (element: Element, context: Context): string => {
+  const ordered = element.localName === 'ol';
+  const start = Number(element.getAttribute('start') || 1);
+  return elementChildren(element).filter(item => item.localName === 'li').map((item, index) => {
+    const marker = ordered ? `${start + index}.` : '-';
+    const indent = ' '.repeat(marker.length + 1);
+    // A nested list follows its item's text directly, which keeps the list tight
+    const body = blocks(item, context).reduce((text, part) =>
+      text ? text + (/^(?:-|\d+\.) /.test(part) ? '\n' : '\n\n') + part : part, '');
+    const lines = body.split('\n').map((line, lineIndex) => lineIndex === 0 || !line ? line : indent + line);
+    return `${marker} ${lines.join('\n')}`.trimEnd();
+  }).join('\n');
+};
+
+const tableRows = (table: Element): Element[] =>
+  elementChildren(table).flatMap(child => child.localName === 'tr' ? [child] : elementChildren(child).filter(row => row.localName === 'tr'));
+
+const tableCells = (row: Element) => elementChildren(row).filter(cell => cell.localName === 'td' || cell.localName === 'th');
+
+const htmlTable = (table: Element): string => {
+  const serializer = new XMLSerializer();
+  const rows = tableRows(table).map(row => {
+    const cells = tableCells(row).map(cell => {
+      const span = ['colspan', 'rowspan'].filter(name => cell.hasAttribute(name)).map(name => ` ${name}="${cell.getAttribute(name)}"`).join('');
+      const content = Array.from(cell.childNodes).map(node => serializer.serializeToString(node as any)).join('');
+      return `<${cell.localName}${span}>${content}</${cell.localName}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+  return `<table>\n${rows.join('\n')}\n</table>`;
+};
+
+const table = (element: Element, context: Context): string => {
+  const rows = tableRows(element).map(tableCells);
+  const merged = rows.some(cells => cells.some(cell => Number(cell.getAttribute('colspan') || 1) > 1 || Number(cell.getAttribute('rowspan') || 1) > 1));
+  const complex = rows.some(cells => cells.some(cell => Array.from(cell.getElementsByTagName('*')).some(child => COMPLEX_CELL_CONTENT.test(child.localName))));
+  if (!rows.length || merged || complex || rows.some(cells => cells.length !== rows[0].length)) return htmlTable(element);
+
+  const cellContext = { ...context, inTable: true };
+  const cellText = (cell: Element, header: boolean) => {
+    // Header cells are bold in Word anyway
+    const [only] = elementChildren(cell);
+    const plain = header && elementChildren(cell).length === 1 && only.childNodes.length === 1 && (only.firstChild as Element)?.localName === 'strong';
+    const parts = plain ? [paragraph(Array.from(only.firstChild!.childNodes), cellContext)] : blocks(cell, cellContext);
+    return parts.join('<br>').replace(/\n/g, ' ').replace(/(?<!\\)\|/g, '\\|');
+  };
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [
+    line(rows[0].map(cell => cellText(cell, true))),
+    line(rows[0].map(cell => ALIGNMENT_RULES[cell.getAttribute('align') || ''] || '---')),
+    ...rows.slice(1).map(cells => line(cells.map(cell => cellText(cell, false)))),
+  ].join('\n');
+};
+
+const noteDefinitions = (element: Element, context: Context) => {
+  for (const item of elementChildren(element)) {
+    const [, kind, id] = item.getAttribute('id')!.match(NOTE_ITEM)!;
+    // mammoth lists a note again for every reference to it
+    const label = `[^${noteLabel(kind, id)}]:`;
+    if (context.notes.some(note => note.startsWith(label))) continue;
+    // Later paragraphs of a note are indented so they stay inside the definition
+    context.notes.push(`${label} ${blocks(item, context).join('\n\n').replace(/\n(?=.)/g, '\n    ')}`);
+  }
+};
+
+const blocks = (parent: Node, context: Context): string[] => {
+  const output: string[] = [];
+  let pending: Node[] = [];
+  const flush = () => {
+    const text = paragraph(pending, context);
+    if (text) output.push(text);
+    pending = [];
+  };
+
+  const children = Array.from(parent.childNodes);
+  for (let index = 0; index < children.length; index++) {
+    const node = children[index];
+    if (!isBlock(node)) {
+      pending.push(node);
+      continue;
+    }
+    flush();
+    const element = node as Element;
+    const name = element.localName;
+    const heading = name.match(HEADING);
+
+    if (heading) {
+      const text = inline(Array.from(element.childNodes), context).replace(/\\\n/g, ' ').trim();
+      if (text) output.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (name === 'p') {
+      // convertToDocx puts a bold language label above each code block
+      const next = children[index + 1] as Element | undefined;
+      const [label] = elementChildren(element);
+      const lang = next?.localName === 'pre' && element.childNodes.length === 1 && label?.localName === 'strong'
+        ? languageFromLabel((label.textContent || '').trim())
+        : undefined;
+      if (lang) {
+        output.push(codeBlock(next!, lang));
+        index++;
+      } else {
+        const text = paragraph(Array.from(element.childNodes), context);
+        if (text) output.push(text);
+      }
+    } else if (name === 'pre') {
+      output.push(codeBlock(element, ''));
+    } else if (name === 'ul' || name === 'ol') {
+      const items = elementChildren(element);
+      if (items.length && items.every(item => NOTE_ITEM.test(item.getAttribute('id') || ''))) noteDefinitions(element, context);
+      else output.push(list(element, context));
+    } else if (name === 'table') {
+      output.push(table(element, context));
+    } else if (name === 'blockquote') {
+      output.push(blocks(element, context).join('\n\n').split('\n').map(line => line ? `> ${line}` : '>').join('\n'));
+    } else if (name === 'hr') {
+      output.push('---');
+    } else {
+      output.push(...blocks(element, context));
+    }
+  }
+  flush();
+  return output;
+};
+
+/** Markdown for mammoth's HTML, with Word's footnotes and endnotes as `[^n]` notes at the end. */
+export const htmlToMarkdown = (html: string): string => {
+  const document = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/xml');
+  const context: Context = { notes: [], inTable: false };
+  const body = blocks(document.documentElement, context);
+  return [...body, ...context.notes].join('\n\n') + '\n';
+};
@@ -0,0 +1,205 @@
+// Reads just enough of an image file's header to know its format and pixel size,
+// so images can be embedded at their real aspect ratio.
+
+export type ImageType = 'png' | 'jpg' | 'gif' | 'bmp' | 'svg';
+
+export interface ImageInfo {
+  type: ImageType;
+  width: number;
+  height: number;
+}
+
+export interface ImageSizeHints {
+  width?: string;
+  height?: string;
+}
+
+// docx needs a raster fallback for every SVG. Word 2016 and later render the SVG
+// itself, so a transparent pixel is enough for the older readers that can't.
+export const TRANSPARENT_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const CSS_PIXELS_PER_UNIT: Record<string, number> = {
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  em: 16,
+  rem: 16,
+};
+
+const DEFAULT_SVG_SIZE = { width: 300, height: 150 };
+
+/** Converts a CSS-style length ("120", "3cm", "2in") to pixels; percentages return null. */
+export const lengthToPixels = (value: string): number | null => {
+  const match = value.trim().match(/^(\d*\.?\d+)\s*(px|pt|pc|in|cm|mm|em|rem)?$/i);
+  if (!match) return null;
+  return parseFloat(match[1]) * CSS_PIXELS_PER_UNIT[(match[2] || 'px').toLowerCase()];
+};
+
+const readJpegSize = (view: DataView): { width: number; height: number } | null => {
+  let offset = 2;
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    // SOF0-SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+const readSvgSize = (buffer: ArrayBuffer): { width: number; height: number } => {
+  const text = new TextDecoder().decode(buffer.slice(0, 4096));
+  const tag = text.match(/<svg\b[^>]*>/i)?.[0] || '';
+  const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']+)["']`, 'i'))?.[1];
+
+  const width = attribute('width') ? lengthToPixels(attribute('width')!) : null;
+  const height = attribute('height') ? lengthToPixels(attribute('height')!) : null;
+  const viewBox = attribute('viewBox')?.split(/[\s,]+/).map(Number);
+  const [boxWidth, boxHeight] = viewBox && viewBox.length === 4 ? [viewBox[2], viewBox[3]] : [0, 0];
+
+  if (width && height) return { width, height };
+  if (boxWidth > 0 && boxHeight > 0) {
+    if (width) return { width, height: width * boxHeight / boxWidth };
+    if (height) return { width: height * boxWidth / boxHeight, height };
+    return { width: boxWidth, height: boxHeight };
+  }
+  return DEFAULT_SVG_SIZE;
+};
+
+/** Detects the image format from its magic bytes. Returns null for formats Word can't embed. */
+export const readImageInfo = (buffer: ArrayBuffer): ImageInfo | null => {
+  const view = new DataView(buffer);
+  const byte = (index: number) => index < view.byteLength ? view.getUint8(index) : -1;
+
+  if (byte(0) === 0x89 && byte(1) === 0x50 && byte(2) === 0x4e && byte(3) === 0x47 && view.byteLength >= 24) {
+    return { type: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (byte(0) === 0xff && byte(1) === 0xd8) {
+    const size = readJpegSize(view);
+    return size && { type: 'jpg', ...size };
+  }
+  if (byte(0) === 0x47 && byte(1) === 0x49 && byte(2) === 0x46 && view.byteLength >= 10) {
+    return { type: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (byte(0) === 0x42 && byte(1) === 0x4d && view.byteLength >= 26) {
+    return { type: 'bmp', width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+  }
+
+  const head = new TextDecoder().decode(buffer.slice(0, 512)).trimStart();
+  // Comments may come before or after the doctype (Graphviz puts them after)
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE svg[^>]*>\s*)*<svg\b/i.test(head)) {
+    return { type: 'svg', ...readSvgSize(buffer) };
+  }
+  return null;
+};
+
+/**
+ * Parses a pandoc-style attribute block such as `{#fig:map width=50% height=4cm}`
+ * that follows an image. Returns the size hints, the `#id` label if any, every
+ * `key=value` attribute, and the length of the block consumed.
+ */
+export const parseSizeHints = (
+  text: string
+): { hints: ImageSizeHints; id?: string; attributes: Record<string, string>; length: number } | null => {
+  const block = text.match(/^\{([^}\n]*)\}/);
+  if (!block) return null;
+
+  const hints: ImageSizeHints = {};
+  const attributes: Record<string, string> = {};
+  for (const [, key, raw] of block[1].matchAll(/([\w-]+)\s*=\s*("[^"]*"|'[^']*'|[^\s"']+)/g)) {
+    const value = raw.replace(/^["']|["']$/g, '');
+    attributes[key] = value;
+    if (key === 'width' || key === 'height') hints[key] = value;
+  }
+  const id = block[1].match(/(?:^|\s)#([^\s}]+)/)?.[1];
+  return { hints, id, attributes, length: block[0].length };
+};
+
+const resolveHint = (hint: string | undefined, reference: number): number | null => {
+  if (!hint) return null;
+  const percent = hint.trim().match(/^(\d*\.?\d+)%$/);
+  return percent ? reference * parseFloat(percent[1]) / 100 : lengthToPixels(hint);
+};
+
+/**
+ * Works out the display size in pixels: explicit hints win, otherwise the
+ * intrinsic size is used, and the result is scaled down to fit the page while
+ * keeping the aspect ratio.
+ */
+export const fitImageSize = (
+  info: { width: number; height: number },
+  hints: ImageSizeHints,
+  maxWidth: number,
+  maxHeight: number
+): { width: number; height: number } => {
+  const aspect = info.width > 0 && info.height > 0 ? info.height / info.width : 0.6;
+  const hintWidth = resolveHint(hints.width, maxWidth);
+  const hintHeight = resolveHint(hints.height, maxHeight);
+
+  let width = hintWidth ?? (hintHeight ? hintHeight / aspect : info.width || maxWidth);
+  let height = hintHeight ?? width * aspect;
+
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  width *= scale;
+  height *= scale;
+  return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) };
+};
+
+// MIME types accepted in data: URIs, mapped to the format docx embeds them as
+export const IMAGE_MIME_TYPES: Record<string, ImageType> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/pjpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/x-ms-bmp': 'bmp',
+  'image/svg+xml': 'svg',
+};
+
+const DATA_URI = /^data:([\w.+-]+\/[\w.+-]+)?((?:;[\w-]+=[^;,]*)*)(;base64)?,([\s\S]*)$/i;
+
+/** Decodes a `data:` URI into its MIME type and bytes, or null if it is malformed. */
+export const decodeDataUri = (uri: string): { mimeType: string; data: ArrayBuffer } | null => {
+  const match = uri.trim().match(DATA_URI);
+  if (!match) return null;
+  const [, mimeType = 'text/plain', , base64, payload] = match;
+
+  try {
+    const bytes = base64
+      ? Uint8Array.from(atob(payload.replace(/\s+/g, '')), char => char.charCodeAt(0))
+      : new TextEncoder().encode(decodeURIComponent(payload));
+    return { mimeType: mimeType.toLowerCase(), data: bytes.buffer as ArrayBuffer };
+  } catch {
+    return null;
+  }
+};
+
+/** Short label for an image source; data URIs are far too long to show in full. */
+export const describeImageSource = (href: string): string =>
+  /^data:/i.test(href) ? `${href.slice(0, href.indexOf(',') + 1)}… (inline data)` : href;
+
+/** Reads src, alt, title and size attributes from an HTML `<img>` tag. */
+export const parseImageTag = (tag: string): { src: string; alt: string; title: string | null; hints: ImageSizeHints } | null => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, ...values] of tag.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[name.toLowerCase()] = values.find(value => value !== undefined) || '';
+  }
+  if (!attributes.src) return null;
+
+  // Inline styles win over the presentational attributes, as in a browser
+  const style = (property: string) => attributes.style?.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`, 'i'))?.[1].trim();
+  const hints: ImageSizeHints = {};
+  const width = style('width') || attributes.width;
+  const height = style('height') || attributes.height;
+  if (width) hints.width = width;
+  if (height) hints.height = height;
+
+  return { src: attributes.src, alt: attributes.alt || '', title: attributes.title || null, hints };
+};
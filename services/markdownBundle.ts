@@ -0,0 +1,63 @@
+import JSZip from 'jszip';
+
+// A Markdown bundle is a zip holding `document.md` and the images it references
+// under `images/`. Word→MD exports one, and MD→Word accepts it back unchanged.
+
+export const BUNDLE_MARKDOWN_NAME = 'document.md';
+export const BUNDLE_IMAGE_DIR = 'images';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tiff',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'image/x-emf': 'emf',
+  'image/emf': 'emf',
+  'image/x-wmf': 'wmf',
+  'image/wmf': 'wmf',
+};
+
+/** File extension for an image content type, e.g. `image/jpeg` → `jpg`. */
+export const extensionForContentType = (contentType: string | undefined): string => {
+  const type = (contentType || '').toLowerCase();
+  return IMAGE_EXTENSIONS[type] || type.split('/')[1]?.replace(/^x-/, '').replace(/\W.*$/, '') || 'bin';
+};
+
+export const createMarkdownBundle = async (markdown: string, images: Map<string, ArrayBuffer>): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file(BUNDLE_MARKDOWN_NAME, markdown);
+  images.forEach((data, path) => zip.file(path, data));
+  return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+/**
+ * Reads a bundle back. `document.md` is preferred, otherwise the shallowest
+ * Markdown file is used; every other file is returned keyed by its path
+ * relative to that Markdown file, so `![](images/x.png)` resolves directly.
+ */
+export const readMarkdownBundle = async (
+  buffer: ArrayBuffer
+): Promise<{ name: string; markdown: string; images: Map<string, ArrayBuffer> }> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const files = Object.values(zip.files).filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'));
+
+  const markdownFiles = files
+    .filter(entry => /\.(md|markdown|txt)$/i.test(entry.name))
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+  const source = markdownFiles.find(entry => entry.name.split('/').pop() === BUNDLE_MARKDOWN_NAME) || markdownFiles[0];
+  if (!source) throw new Error('The zip archive does not contain a Markdown file.');
+
+  const root = source.name.includes('/') ? source.name.slice(0, source.name.lastIndexOf('/') + 1) : '';
+  const images = new Map<string, ArrayBuffer>();
+  for (const entry of files) {
+    if (entry === source || markdownFiles.includes(entry)) continue;
+    const path = entry.name.startsWith(root) ? entry.name.slice(root.length) : entry.name;
+    images.set(path, await entry.async('arraybuffer'));
+  }
+
+  return { name: source.name, markdown: await source.async('string'), images };
+};
@@ -0,0 +1,154 @@
+// Splits long Markdown into pieces an AI model can take in one request, and checks
+// that the parts a model must not touch come back intact.
+
+export type ProtectedContent = 'code' | 'images' | 'tables';
+
+export interface MarkdownChunk {
+  text: string;
+  tokens: number;
+}
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}#{1,6}(?:\s|$)/;
+
+/**
+ * A rough token count: CJK characters are about a token each, other text about
+ * four characters a token. Good enough for budgeting, not for billing.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+// Cuts the text into blocks: lines between blank lines, with fenced code and
+// display math kept whole as blocks of their own. Headings start a new block.
+const splitBlocks = (markdown: string): { text: string; heading: number }[] => {
+  const blocks: { text: string; heading: number }[] = [];
+  let current: string[] = [];
+  let closing: RegExp | null = null;
+
+  const flush = () => {
+    if (current.some(line => line.trim())) {
+      const level = current[0].match(/^ {0,3}(#{1,6})(?:\s|$)/)?.[1].length || 0;
+      blocks.push({ text: current.join('\n'), heading: level });
+    }
+    current = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (closing) {
+      current.push(line);
+      if (closing.test(line)) {
+        closing = null;
+        flush();
+      }
+      continue;
+    }
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      flush();
+      closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`);
+    } else if (/^\s*\$\$\s*$/.test(line)) {
+      flush();
+      closing = /^\s*\$\$\s*$/;
+    } else if (HEADING.test(line)) {
+      flush();
+    } else if (!line.trim()) {
+      flush();
+      continue;
+    }
+    current.push(line);
+  }
+  flush();
+  return blocks;
+};
+
+/**
+ * Packs whole sections into chunks of at most `maxTokens`. A section is split at
+ * block boundaries only when it is too big on its own, and a single block larger
+ * than the budget (a long code listing, say) becomes a chunk by itself.
+ */
+export const splitMarkdownIntoChunks = (markdown: string, maxTokens: number): MarkdownChunk[] => {
+  const sections: string[][] = [];
+  for (const block of splitBlocks(markdown)) {
+    if (block.heading || sections.length === 0) sections.push([]);
+    sections[sections.length - 1].push(block.text);
+  }
+
+  const chunks: MarkdownChunk[] = [];
+  let pending: string[] = [];
+  let pendingTokens = 0;
+  const push = (text: string, tokens: number) => {
+    if (pending.length && pendingTokens + tokens > maxTokens) {
+      chunks.push({ text: pending.join('\n\n'), tokens: pendingTokens });
+      pending = [];
+      pendingTokens = 0;
+    }
+    pending.push(text);
+    pendingTokens += tokens;
+  };
+
+  for (const section of sections) {
+    const text = section.join('\n\n');
+    const tokens = estimateTokens(text);
+    if (tokens <= maxTokens) {
+      push(text, tokens);
+    } else {
+      section.forEach(block => push(block, estimateTokens(block)));
+    }
+  }
+  if (pending.length) chunks.push({ text: pending.join('\n\n'), tokens: pendingTokens });
+  return chunks;
+};
+
+// ---------------------------------------------------------------------------
+// Content a model must hand back unchanged
+// ---------------------------------------------------------------------------
+
+const codeBlocks = (markdown: string): string[] =>
+  splitBlocks(markdown)
+    .filter(block => FENCE_OPEN.test(block.text))
+    // The fence itself may change (a language added), the code may not
+    .map(block => block.text.split('\n').slice(1, -1).join('\n'));
+
+const imageTargets = (markdown: string): string[] => [
+  ...[...markdown.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)].map(match => match[1]),
+  ...[...markdown.matchAll(/<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi)].map(match => match[1]),
+];
+
+const tables = (markdown: string): string[] =>
+  splitBlocks(markdown)
+    .filter(block => /^\s*\|.*\|\s*$/m.test(block.text) && /^\s*\|?\s*:?-{3,}/m.test(block.text))
+    .map(block => block.text.split('\n').filter(line => line.includes('|')).map(line => line.replace(/\s+/g, ' ').trim()).join('\n'));
+
+/**
+ * Lists the code blocks, image references and tables of `original` that are
+ * missing from `result`, checking only the kinds asked for. Whitespace inside
+ * table rows is ignored.
+ */
+export const findAlteredContent = (
+  original: string,
+  result: string,
+  kinds: ProtectedContent[] = ['code', 'images', 'tables']
+): string[] => {
+  const missing: string[] = [];
+  if (kinds.includes('code')) {
+    const resultCode = codeBlocks(result);
+    codeBlocks(original).forEach(code => {
+      if (!resultCode.includes(code)) missing.push(`code block "${code.split('\n')[0].slice(0, 40)}"`);
+    });
+  }
+  if (kinds.includes('images')) {
+    const resultImages = new Set(imageTargets(result));
+    imageTargets(original).forEach(target => {
+      if (!resultImages.has(target)) missing.push(`image ${target}`);
+    });
+  }
+  if (kinds.includes('tables')) {
+    const resultTables = tables(result);
+    tables(original).forEach(table => {
+      if (!resultTables.includes(table)) missing.push(`table "${table.split('\n')[0].slice(0, 40)}"`);
+    });
+  }
+  return missing;
+};
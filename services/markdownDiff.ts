@@ -0,0 +1,182 @@
+// Line and word diffs between the Markdown a model was given and what it returned,
+// grouped into change blocks that can be accepted or rejected one by one.
+
+export type DiffType = 'equal' | 'delete' | 'insert';
+
+export interface DiffPart<T> {
+  type: DiffType;
+  items: T[];
+}
+
+export interface ReviewHunk {
+  id: number;
+  removed: string[];
+  added: string[];
+}
+
+export type ReviewSegment = { type: 'same'; lines: string[] } | { type: 'change'; hunk: ReviewHunk };
+
+export interface MarkdownReview {
+  segments: ReviewSegment[];
+  hunks: ReviewHunk[];
+}
+
+// Past this many edits a diff stops looking for the shortest script and reports
+// the rest as one replacement, which keeps memory bounded on rewritten documents
+const MAX_EDIT_DISTANCE = 3000;
+const PATCH_CONTEXT_LINES = 3;
+
+// Myers' O(ND) algorithm over the part of the sequences that differs
+const shortestEdit = <T>(a: T[], b: T[]): DiffType[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d-1 .. d+1] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number): DiffType[] => {
+  const script: DiffType[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      script.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) script.push(x === previousX ? 'insert' : 'delete');
+    x = previousX;
+    y = previousY;
+  }
+  return script.reverse();
+};
+
+/** Diffs two sequences into runs of equal, deleted and inserted items. */
+export const diffSequences = <T>(a: T[], b: T[]): DiffPart<T>[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const script = shortestEdit(middleA, middleB)
+    ?? [...middleA.map(() => 'delete' as const), ...middleB.map(() => 'insert' as const)];
+
+  const parts: DiffPart<T>[] = [];
+  const add = (type: DiffType, item: T) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.items.push(item);
+    else parts.push({ type, items: [item] });
+  };
+  a.slice(0, start).forEach(item => add('equal', item));
+  let i = 0;
+  let j = 0;
+  for (const step of script) {
+    if (step === 'equal') { add('equal', middleA[i++]); j++; }
+    else if (step === 'delete') add('delete', middleA[i++]);
+    else add('insert', middleB[j++]);
+  }
+  a.slice(endA).forEach(item => add('equal', item));
+  return parts;
+};
+
+// Words, runs of whitespace and single punctuation marks; CJK text has no spaces,
+// so each character counts as a word
+const WORD = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]|[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+/** A word-level diff, for highlighting what changed inside a change block. */
+export const diffWords = (before: string, after: string): DiffPart<string>[] =>
+  diffSequences(before.match(WORD) || [], after.match(WORD) || []);
+
+/** Groups a line diff into unchanged runs and numbered change blocks. */
+export const buildReview = (original: string, revised: string): MarkdownReview => {
+  const segments: ReviewSegment[] = [];
+  const hunks: ReviewHunk[] = [];
+  for (const part of diffSequences(original.split('\n'), revised.split('\n'))) {
+    if (part.type === 'equal') {
+      segments.push({ type: 'same', lines: part.items });
+      continue;
+    }
+    const last = segments[segments.length - 1];
+    let hunk = last?.type === 'change' ? last.hunk : undefined;
+    if (!hunk) {
+      hunk = { id: hunks.length, removed: [], added: [] };
+      hunks.push(hunk);
+      segments.push({ type: 'change', hunk });
+    }
+    (part.type === 'delete' ? hunk.removed : hunk.added).push(...part.items);
+  }
+  return { segments, hunks };
+};
+
+/** The original text with only the accepted change blocks applied. */
+export const applyReview = (review: MarkdownReview, accepted: Set<number>): string =>
+  review.segments
+    .flatMap(segment => segment.type === 'same'
+      ? segment.lines
+      : accepted.has(segment.hunk.id) ? segment.hunk.added : segment.hunk.removed)
+    .join('\n');
+
+/** A unified diff of two texts, as `diff -u` or `git diff` would write it. */
+export const createUnifiedPatch = (before: string, after: string, path: string): string => {
+  const lines = (text: string) => {
+    const split = text.split('\n');
+    return split[split.length - 1] === '' ? split.slice(0, -1) : split;
+  };
+
+  // Flatten to one entry per line, then cut hunks around the changes
+  const entries = diffSequences(lines(before), lines(after))
+    .flatMap(part => part.items.map(line => ({ type: part.type, line })));
+  const changed = entries.map((entry, index) => entry.type !== 'equal' ? index : -1).filter(index => index >= 0);
+  if (!changed.length) return '';
+
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+  let index = 0;
+  while (index < changed.length) {
+    const first = Math.max(0, changed[index] - PATCH_CONTEXT_LINES);
+    let last = changed[index];
+    while (index + 1 < changed.length && changed[index + 1] - last <= 2 * PATCH_CONTEXT_LINES + 1) last = changed[++index];
+    last = Math.min(entries.length - 1, last + PATCH_CONTEXT_LINES);
+    index++;
+
+    const oldStart = entries.slice(0, first).filter(entry => entry.type !== 'insert').length;
+    const newStart = entries.slice(0, first).filter(entry => entry.type !== 'delete').length;
+    const hunk = entries.slice(first, last + 1);
+    const oldCount = hunk.filter(entry => entry.type !== 'insert').length;
+    const newCount = hunk.filter(entry => entry.type !== 'delete').length;
+    // An empty side is numbered from the line before it
+    output.push(`@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`);
+    hunk.forEach(entry => output.push(`${entry.type === 'equal' ? ' ' : entry.type === 'delete' ? '-' : '+'}${entry.line}`));
+  }
+  return output.join('\n') + '\n';
+};
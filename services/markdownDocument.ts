@@ -0,0 +1,295 @@
+import { Marked, Token, Tokens } from 'marked';
+import { FIGURE_LABEL, TABLE_LABEL, SECTION_LABEL } from './docStyles';
+import { mathExtensions } from './mathConverter';
+import { parseSizeHints, parseImageTag, ImageSizeHints } from './imageUtils';
+import { FrontMatterValue } from './frontMatter';
+import { referenceExtensions, FootnoteDefinitionToken, bookmarkName, stripAttributes, TABLE_CAPTION } from './crossReferences';
+import { parseBibliography, BibEntry } from './bibliography';
+import { parseDiagramFence, isServerDiagram, DiagramFence } from './diagramRenderer';
+
+// How a Markdown document is read before it is laid out: the parser, image
+// references and the numbering of headings, figures and tables. The Word
+// converter and the live preview both start from here, so they agree.
+
+export const markdownParser = new Marked({ extensions: [...mathExtensions, ...referenceExtensions] });
+
+export type SizedImage = Tokens.Image & { sizeHints?: ImageSizeHints; label?: string };
+// `number` is the outline number shown before the heading, when headings are numbered
+export type LabelledHeading = Tokens.Heading & { label?: string; unnumbered?: boolean; number?: string };
+
+// `<!-- pagebreak -->`, plus the LaTeX commands pandoc users already type
+export const PAGE_BREAK_COMMENT = /^<!--\s*(page-?break|new-?page)\s*-->\s*$/i;
+export const PAGE_BREAK_COMMAND = /^\\(newpage|pagebreak|clearpage)$/;
+export const HTML_COMMENT = /^\s*<!--[\s\S]*?-->\s*$/;
+
+export const REFS_DIV = /^<div\s+id=["']refs["']\s*>\s*<\/div>$/i;
+
+export const CALLOUT_MARKER = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*(.*)$/i;
+
+export const HEADING_DEPTH = 6;
+export const TOC_DEPTH = 3;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0', copy: '\u00A9', reg: '\u00AE', mdash: '\u2014', ndash: '\u2013', hellip: '\u2026',
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Visible text of an inline token tree, without Markdown syntax such as link targets
+export const inlineText = (tokens: any[] = []): string =>
+  tokens.map(t => t.tokens ? inlineText(t.tokens) : (t.text || '')).join('');
+
+// Moves a `{#fig:x width=50%}` block that directly follows an image onto the image
+// token, so the attribute text itself never reaches the document.
+export const attachSizeHints = (inlineTokens: any[]): any[] => {
+  const result: any[] = [];
+  for (const token of inlineTokens) {
+    const previous = result[result.length - 1];
+    if (previous?.type === 'image' && token.type === 'text' && !token.tokens) {
+      const parsed = parseSizeHints(token.text);
+      if (parsed) {
+        result[result.length - 1] = { ...previous, sizeHints: parsed.hints, label: parsed.id };
+        const rest = token.text.slice(parsed.length);
+        if (rest) result.push({ ...token, raw: rest, text: rest });
+        continue;
+      }
+    }
+    result.push(token);
+  }
+  return result;
+};
+
+// `<img>` tags become image tokens so they share the Markdown image path
+export const imageFromTag = (tag: string): SizedImage | undefined => {
+  const parsed = parseImageTag(tag);
+  if (!parsed) return undefined;
+  const alt = decodeEntities(parsed.alt);
+  return {
+    type: 'image',
+    raw: tag,
+    href: decodeEntities(parsed.src),
+    title: parsed.title && decodeEntities(parsed.title),
+    text: alt,
+    tokens: [{ type: 'text', raw: alt, text: alt }],
+    sizeHints: parsed.hints,
+  };
+};
+
+// A paragraph holding nothing but one image is treated as a figure
+export const standaloneImage = (inlineTokens: any[]): SizedImage | undefined => {
+  const content = attachSizeHints(inlineTokens).filter(t => !(t.type === 'text' && !t.text.trim()));
+  if (content.length !== 1) return undefined;
+  if (content[0].type === 'image') return content[0];
+  return content[0].type === 'html' && /^<img\b/i.test(content[0].text) ? imageFromTag(content[0].text) : undefined;
+};
+
+const safeDecodeUri = (href: string): string => {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+};
+
+/** The key of the uploaded asset an image reference points at, if any. */
+export const findAssetKey = (assets: Map<string, unknown>, href: string): string | undefined => {
+  // 1. Try exact match (best for folder structures)
+  if (assets.has(href)) return href;
+
+  // 2. Try normalized path (remove leading ./ or /)
+  const normalized = href.replace(/^\.?\//, '');
+  if (assets.has(normalized)) return normalized;
+
+  // 3. Try percent-decoded path (e.g. `my%20chart.png`)
+  const decoded = safeDecodeUri(normalized);
+  if (assets.has(decoded)) return decoded;
+
+  // 4. Try filename only fallback
+  const fileName = decoded.split('/').pop() || '';
+  if (assets.has(fileName)) return fileName;
+
+  // 5. Deep search (find any key ending with the requested path)
+  for (const key of assets.keys()) {
+    if (key.endsWith(href) || key.endsWith(normalized) || key.endsWith(decoded)) return key;
+  }
+
+  return undefined;
+};
+
+// The bibliography comes from the upload, or from a `bibliography:` front matter
+// path found among the document's assets (e.g. refs.bib inside a zip bundle)
+export const loadBibliography = (
+  uploaded: string | undefined,
+  path: FrontMatterValue | undefined,
+  assets: Map<string, ArrayBuffer>,
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void
+): Map<string, BibEntry> => {
+  let text = uploaded;
+  if (!text && typeof path === 'string') {
+    const file = assets.get(path) || assets.get(path.replace(/^\.?\//, ''));
+    if (file) text = new TextDecoder().decode(file);
+    else onLog(`Bibliography "${path}" from the front matter was not found among the uploaded files.`, "warning");
+  }
+  if (!text) return new Map();
+
+  try {
+    const entries = parseBibliography(text);
+    onLog(`Bibliography loaded: ${entries.size} entr${entries.size === 1 ? 'y' : 'ies'}.`, "info");
+    return entries;
+  } catch (error) {
+    onLog(`Could not read the bibliography: ${error instanceof Error ? error.message : String(error)}`, "error");
+    return new Map();
+  }
+};
+
+/**
+ * Draws the document's diagram fences ahead of layout, since rendering is
+ * asynchronous. A fence that fails to render is left out and stays a code block.
+ */
+export const renderDiagrams = async <T>(
+  tokens: Token[],
+  render: (fence: DiagramFence) => Promise<T>,
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void
+): Promise<Map<Token, { fence: DiagramFence; image: T }>> => {
+  const diagrams = new Map<Token, { fence: DiagramFence; image: T }>();
+  const fences: Tokens.Code[] = [];
+  markdownParser.walkTokens(tokens, token => {
+    if (token.type === 'code') fences.push(token as Tokens.Code);
+  });
+  for (const code of fences) {
+    const fence = parseDiagramFence(code.lang || '', code.text);
+    if (!fence) {
+      if (isServerDiagram(code.lang || '')) onLog("PlantUML diagrams need a server to render, so they are kept as code.", "info");
+      continue;
+    }
+    try {
+      diagrams.set(code, { fence, image: await render(fence) });
+      onLog(`Rendered ${fence.language} diagram${fence.caption ? `: ${fence.caption}` : ''}`, "success");
+    } catch (error) {
+      onLog(`Could not render ${fence.language} diagram, kept as code: ${error instanceof Error ? error.message : String(error)}`, "warning");
+    }
+  }
+  return diagrams;
+};
+
+export interface CrossReferenceTarget {
+  bookmark: string;
+  prefix: string;
+  field: string;
+  cached: string;
+}
+
+export interface DocumentTargets {
+  labels: Map<string, CrossReferenceTarget>;
+  footnoteDefinitions: Map<string, FootnoteDefinitionToken>;
+  // Each captioned table and the `Table: ...` paragraph that captions it
+  tableCaptions: Map<Token, Tokens.Paragraph>;
+  tocEntries: { title: string; level: number }[];
+  // Bookmark names given out so far; the reference list adds its entries' to them
+  bookmarks: Set<string>;
+}
+
+/**
+ * Numbers cross-reference targets before anything is rendered, so references can
+ * point forwards; outline numbers are worked out too, so a table of contents reads
+ * right before Word updates it. Heading tokens get their label and number attached.
+ */
+export const collectTargets = (
+  tokens: Token[],
+  options: { numberedHeadings: boolean; diagrams: Map<Token, { fence: DiagramFence }> },
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void
+): DocumentTargets => {
+  const labels = new Map<string, CrossReferenceTarget>();
+  const bookmarks = new Set<string>();
+  const footnoteDefinitions = new Map<string, FootnoteDefinitionToken>();
+  const tableCaptions = new Map<Token, Tokens.Paragraph>();
+  const tocEntries: { title: string; level: number }[] = [];
+  const counters: number[] = new Array(HEADING_DEPTH).fill(0);
+  let figureTotal = 0;
+  let tableTotal = 0;
+
+  const addLabel = (label: string, prefix: string, field: string, cached: string) => {
+    if (labels.has(label)) onLog(`Label {#${label}} is used more than once.`, "warning");
+    else labels.set(label, { bookmark: bookmarkName(label, bookmarks), prefix, field, cached });
+  };
+
+  const visit = (blockTokens: any[]) => blockTokens.forEach((token, index) => {
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as LabelledHeading;
+        const attributes = stripAttributes(heading.tokens);
+        heading.tokens = attributes.tokens;
+        heading.label = attributes.id;
+        heading.unnumbered = attributes.classes.includes('unnumbered');
+
+        const text = inlineText(heading.tokens);
+        const numbered = options.numberedHeadings && !heading.unnumbered;
+        let number = '';
+        if (numbered) {
+          counters[heading.depth - 1]++;
+          counters.fill(0, heading.depth);
+          number = counters.slice(0, heading.depth).join('.');
+          heading.number = number;
+        }
+        if (heading.depth <= TOC_DEPTH) tocEntries.push({ title: number ? `${number} ${text}` : text, level: heading.depth });
+        if (heading.label) {
+          addLabel(heading.label, numbered ? `${SECTION_LABEL} ` : '', numbered ? '\\r \\h' : '\\h', number || text);
+        }
+        break;
+      }
+      case 'paragraph': {
+        const figure = standaloneImage(token.tokens);
+        if (figure?.text) figureTotal++;
+        if (figure?.label) addLabel(figure.label, '', '\\h', `${FIGURE_LABEL} ${figureTotal}`);
+        break;
+      }
+      case 'code': {
+        const diagram = options.diagrams.get(token)?.fence;
+        if (diagram?.caption) figureTotal++;
+        if (diagram?.label) addLabel(diagram.label, '', '\\h', `${FIGURE_LABEL} ${figureTotal}`);
+        break;
+      }
+      case 'html':
+        figureTotal += (token.text.match(/<img\b[^>]*>/gi) || []).filter((tag: string) => imageFromTag(tag)?.text).length;
+        break;
+      case 'table': {
+        // A `Table: ...` paragraph directly after the table, or else directly before it
+        const neighbour = (step: number) => {
+          let i = index + step;
+          while (blockTokens[i]?.type === 'space') i += step;
+          const candidate = blockTokens[i];
+          return candidate?.type === 'paragraph' && TABLE_CAPTION.test(candidate.text) && ![...tableCaptions.values()].includes(candidate)
+            ? candidate as Tokens.Paragraph
+            : undefined;
+        };
+        const caption = neighbour(1) || neighbour(-1);
+        if (!caption) break;
+        tableCaptions.set(token, caption);
+        tableTotal++;
+        const attributes = stripAttributes(caption.tokens);
+        if (attributes.id) addLabel(attributes.id, '', '\\h', `${TABLE_LABEL} ${tableTotal}`);
+        break;
+      }
+      case 'footnoteDefinition':
+        footnoteDefinitions.set(token.label, token);
+        visit(token.tokens);
+        break;
+      case 'list':
+        token.items.forEach((item: Tokens.ListItem) => visit(item.tokens));
+        break;
+      case 'blockquote':
+        visit(token.tokens);
+        break;
+    }
+  });
+  visit(tokens);
+
+  return { labels, footnoteDefinitions, tableCaptions, tocEntries, bookmarks };
+};
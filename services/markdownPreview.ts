@@ -0,0 +1,507 @@
+import { Token, Tokens } from 'marked';
+import {
+  CALLOUT_STYLES,
+  CalloutType,
+  FIGURE_LABEL,
+  TABLE_LABEL,
+  TOC_TITLE,
+  PAGE_SIZES,
+  mmToTwips
+} from './docStyles';
+import { latexToDocxMath } from './mathConverter';
+import { DOC_THEMES, DocTheme } from './docThemes';
+import { highlightCode, languageLabel, CODE_THEMES } from './codeHighlighter';
+import { readImageInfo, fitImageSize, decodeDataUri, describeImageSource, IMAGE_MIME_TYPES } from './imageUtils';
+import { splitFrontMatter, metadataFromFrontMatter } from './frontMatter';
+import { CitationToken, labelKind } from './crossReferences';
+import { formatCitation, formatNarrativeCitation, formatReference, compareEntries, BibEntry, CitationItem } from './bibliography';
+import { renderDiagram, DiagramFence } from './diagramRenderer';
+import {
+  SizedImage,
+  CALLOUT_MARKER,
+  decodeEntities,
+  attachSizeHints,
+  findAssetKey,
+  loadBibliography,
+  renderDiagrams,
+  collectTargets
+} from './markdownDocument';
+import { resolveDocxSettings } from './docxConverter';
+import { WORD_DEFAULT_FONT, escapeHtml, points, fontSize, fontStack, css, bodyStyle } from './previewHtml';
+import { enabledPlugins, markdownParserFor, pluginRenderers, PreviewContext } from './rendererPlugins';
+import { DocxOptions } from '../types';
+
+// An HTML rendering of what convertToDocx will produce, for the live preview. It
+// reads the document through the same parser, numbering and image lookup as the
+// converter and sends each token to the same plugins, through their preview
+// renderers, so headings, captions, code and missing images look and warn the way
+// they will in Word.
+
+export interface PreviewAsset {
+  data: ArrayBuffer;
+  // An object URL for the same bytes, for the <img> tag
+  url: string;
+}
+
+export interface DocumentPreview {
+  html: string;
+  // What the conversion would warn about, minus its progress messages
+  warnings: string[];
+}
+
+export interface ImageReference {
+  start: number;
+  end: number;
+  href: string;
+}
+
+// Word's own default size, which applies when a theme leaves it unset
+const WORD_DEFAULT_SIZE = 20;
+const TWIPS_PER_PIXEL = 15;
+
+const ORDERED_STYLES = ['decimal', 'lower-alpha', 'lower-roman'];
+const BULLET_STYLES = ['disc', 'circle', 'square'];
+
+const lineHeight = (theme: DocTheme) =>
+  !theme.line ? 1.15 : theme.line.exact ? points(theme.line.value) : (theme.line.value / 240) * 1.15;
+
+// The inline content of a paragraph or of a tight list item's text
+const paragraphTokens = (token: Token): Token[] => (token as Tokens.Paragraph | Tokens.Text).tokens || [token];
+
+// ---------------------------------------------------------------------------
+// Image references, for highlighting the ones that won't resolve
+// ---------------------------------------------------------------------------
+
+const IMAGE_REFERENCE = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)|<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["'][^>]*>/gi;
+
+/** Image references in the Markdown with their offsets, skipping fenced code. */
+export const findImageReferences = (markdown: string): ImageReference[] => {
+  const references: ImageReference[] = [];
+  let offset = 0;
+  let fence: string | null = null;
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+    if (fence) {
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length && !line.slice(line.indexOf(marker) + marker.length).trim()) fence = null;
+    } else if (marker) {
+      fence = marker;
+    } else {
+      for (const match of line.matchAll(IMAGE_REFERENCE)) {
+        references.push({ start: offset + match.index!, end: offset + match.index! + match[0].length, href: match[1] || match[2] });
+      }
+    }
+    offset += line.length + 1;
+  }
+  return references;
+};
+
+/** Whether an image reference points at something the Word conversion can embed. */
+export const resolvesToImage = (href: string, assets: Map<string, unknown>): boolean => {
+  if (/^data:/i.test(href)) {
+    const embedded = decodeDataUri(href);
+    return !!embedded && !!IMAGE_MIME_TYPES[embedded.mimeType] && !!readImageInfo(embedded.data);
+  }
+  return findAssetKey(assets, href) !== undefined;
+};
+
+// ---------------------------------------------------------------------------
+// Diagrams
+// ---------------------------------------------------------------------------
+
+// Drawn diagrams by fence source, so typing elsewhere doesn't draw them again
+const diagramCache = new Map<string, Promise<{ url: string; width: number; height: number }>>();
+const MAX_CACHED_DIAGRAMS = 50;
+
+const previewDiagram = (fence: DiagramFence) => {
+  let cached = diagramCache.get(fence.markdown);
+  if (!cached) {
+    cached = renderDiagram(fence).then(image => ({
+      url: URL.createObjectURL(new Blob([image.data], { type: image.type === 'svg' ? 'image/svg+xml' : 'image/png' })),
+      width: image.width,
+      height: image.height,
+    }));
+    diagramCache.set(fence.markdown, cached);
+    if (diagramCache.size > MAX_CACHED_DIAGRAMS) {
+      const [oldest, evicted] = diagramCache.entries().next().value!;
+      diagramCache.delete(oldest);
+      evicted.then(diagram => URL.revokeObjectURL(diagram.url), () => {});
+    }
+  }
+  return cached;
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders Markdown as the HTML equivalent of its Word conversion. Page setup comes
+ * from the options and front matter; a reference document's styles are not applied.
+ */
+export const renderPreview = async (
+  markdown: string,
+  assets: Map<string, PreviewAsset>,
+  options: Partial<DocxOptions> = {},
+  resources: { bibliography?: string } = {}
+): Promise<DocumentPreview> => {
+  const warnings = new Set<string>();
+  const onLog = (message: string, level: 'info' | 'success' | 'warning' | 'error' = 'info') => {
+    if (level === 'warning' || level === 'error') warnings.add(message);
+  };
+
+  const { data: frontMatter, body } = splitFrontMatter(markdown);
+  const metadata = frontMatter ? metadataFromFrontMatter(frontMatter) : {};
+  const { settings } = resolveDocxSettings(frontMatter, options, onLog);
+  const theme = DOC_THEMES[settings.theme];
+  const palette = CODE_THEMES[settings.codeTheme];
+  const page = PAGE_SIZES[settings.pageSize];
+  const maxWidth = Math.floor((page.width - mmToTwips(settings.margins.left) - mmToTwips(settings.margins.right)) / TWIPS_PER_PIXEL);
+  const maxHeight = Math.floor((page.height - mmToTwips(settings.margins.top) - mmToTwips(settings.margins.bottom)) / TWIPS_PER_PIXEL);
+
+  const plugins = enabledPlugins(settings.disabledPlugins);
+  const parser = markdownParserFor(plugins);
+  const { previewBlocks, previewInlines } = pluginRenderers(plugins);
+  const tokens = parser.lexer(body);
+  const buffers = new Map([...assets].map(([key, asset]) => [key, asset.data]));
+  const bibliography = loadBibliography(resources.bibliography, frontMatter?.bibliography, buffers, onLog);
+  const diagrams = settings.diagrams
+    ? await renderDiagrams(tokens, previewDiagram, onLog)
+    : new Map<Token, { fence: DiagramFence; image: { url: string; width: number; height: number } }>();
+  const { labels, footnoteDefinitions, tableCaptions, tocEntries } =
+    collectTargets(tokens, { numberedHeadings: settings.numberedHeadings, diagrams }, onLog);
+
+  const captionTokens = new Set<Token>(tableCaptions.values());
+  const footnoteIds = new Map<string, number>();
+  const footnotes: string[] = [];
+  const citedKeys = new Set<string>();
+  let figureCount = 0;
+  let tableCount = 0;
+  // Stands in for the reference list until every citation has been rendered
+  const BIBLIOGRAPHY_PLACEHOLDER = '<!--references-->';
+
+  const notLoaded = (label: string, source: string) =>
+    `<span${css({ color: '#FF0000', 'font-weight': 'bold' })}>[${label}: ${escapeHtml(source)}]</span>`;
+
+  const renderImage = (image: SizedImage) => {
+    const source = describeImageSource(image.href);
+    let data: ArrayBuffer | undefined;
+    let url = image.href;
+    if (/^data:/i.test(image.href)) {
+      const embedded = decodeDataUri(image.href);
+      if (embedded && IMAGE_MIME_TYPES[embedded.mimeType]) data = embedded.data;
+    } else {
+      const key = findAssetKey(assets, image.href);
+      if (key !== undefined) ({ data, url } = assets.get(key)!);
+    }
+    if (!data) {
+      onLog(`Image link broken or missing: ${source}`, "warning");
+      return notLoaded('IMAGE NOT LOADED', source);
+    }
+
+    const info = readImageInfo(data);
+    if (!info) {
+      onLog(`Unsupported image format: ${source}`, "warning");
+      return notLoaded('UNSUPPORTED IMAGE', source);
+    }
+    const size = fitImageSize(info, image.sizeHints || {}, maxWidth, maxHeight);
+    return `<img src="${escapeHtml(url)}" alt="${escapeHtml(image.text || '')}"${image.title ? ` title="${escapeHtml(image.title)}"` : ''}`
+      + `${css({ width: `${size.width}px`, height: `${size.height}px`, 'max-width': '100%', 'object-fit': 'contain' })}>`;
+  };
+
+  const renderCaption = (kind: string, html: string, label?: string) => {
+    const count = kind === TABLE_LABEL ? ++tableCount : ++figureCount;
+    const target = label && labels.get(label);
+    return `<p${target ? ` id="${target.bookmark}"` : ''}${css({
+      'font-style': 'italic',
+      'font-size': fontSize(18),
+      color: `#${theme.colors.muted}`,
+      'text-align': 'center',
+      margin: `${points(60)} 0 ${points(200)}`,
+    })}>${kind} ${count}${html}</p>`;
+  };
+
+  const renderFigureBlock = (content: string, caption: string, label?: string) =>
+    `<p${css({ 'text-align': 'center', margin: `${points(120)} 0 ${caption ? 0 : points(150)}`, 'text-indent': 0 })}>${content}</p>`
+    + (caption ? renderCaption(FIGURE_LABEL, `: ${escapeHtml(caption)}`, label) : '');
+
+  // A standalone image is centred and, when it has alt text, captioned
+  const renderFigure = (image: SizedImage) => {
+    const content = renderImage(image);
+    return renderFigureBlock(content, content.startsWith('<img') ? image.text : '', image.label);
+  };
+
+  const renderMath = (latex: string, inline: boolean) => {
+    const { math, error } = latexToDocxMath(latex);
+    if (math) {
+      const html = `<span${css({ 'font-family': "'Cambria Math', serif", 'font-style': 'italic' })}>${escapeHtml(latex)}</span>`;
+      return inline ? html : `<p${css({ 'text-align': 'center', margin: `${points(120)} 0` })}>${html}</p>`;
+    }
+    onLog(`Equation kept as LaTeX source (${error}): ${latex}`, "warning");
+    const source = `<code${css({ 'font-family': fontStack(theme.fonts.code), background: 'yellow' })}>${escapeHtml(inline ? `$${latex}$` : `$$${latex}$$`)}</code>`;
+    return inline ? source : `<p${css({ 'text-align': 'center', margin: `${points(120)} 0` })}>${source}</p>`;
+  };
+
+  const renderCrossReference = (item: CitationItem) => {
+    const target = labels.get(item.key);
+    if (!target) {
+      onLog(`Unknown cross-reference: @${item.key}`, "warning");
+      return '<strong>??</strong>';
+    }
+    const prefix = [item.prefix, target.prefix.trim()].filter(Boolean).join(' ');
+    return escapeHtml(`${prefix ? `${prefix} ` : ''}${target.cached}${item.suffix ? `, ${item.suffix}` : ''}`);
+  };
+
+  const renderCitation = (token: CitationToken) => {
+    if (token.items.every(item => labelKind(item.key))) {
+      return token.items.map((item, index) =>
+        (index === 0 ? '' : index === token.items.length - 1 ? ' and ' : ', ') + renderCrossReference(item)).join('');
+    }
+
+    const cited = token.items.map(item => ({ item, entry: bibliography.get(item.key) }));
+    const missing = cited.filter(({ entry }) => !entry).map(({ item }) => `@${item.key}`);
+    if (missing.length) {
+      if (token.bracketed || bibliography.size) onLog(`Citation not found in the bibliography: ${missing.join(', ')}`, "warning");
+      return escapeHtml(token.raw);
+    }
+
+    cited.forEach(({ item }) => citedKeys.add(item.key));
+    const resolved = cited as { item: CitationItem; entry: BibEntry }[];
+    return escapeHtml(token.bracketed ? formatCitation(resolved) : formatNarrativeCitation(resolved[0].item, resolved[0].entry));
+  };
+
+  // Like Word, a footnote can't hold a reference to another one
+  let openFootnote: string | undefined;
+
+  const renderFootnote = (label: string): number | undefined => {
+    if (openFootnote !== undefined) {
+      onLog(`Footnote [^${openFootnote}] refers to [^${label}]; Word can't nest footnotes, so the reference is kept as text.`, "warning");
+      return undefined;
+    }
+    if (footnoteIds.has(label)) return footnoteIds.get(label);
+    const definition = footnoteDefinitions.get(label);
+    if (!definition) {
+      onLog(`Footnote [^${label}] has no definition.`, "warning");
+      return undefined;
+    }
+    const id = footnoteIds.size + 1;
+    footnoteIds.set(label, id);
+    openFootnote = label;
+    footnotes[id - 1] = definition.tokens.map((token: Token) => token.type === 'paragraph'
+      ? `<p${css({ margin: 0 })}>${renderInline(token.tokens || [])}</p>`
+      : renderBlocks([token])).join('');
+    openFootnote = undefined;
+    return id;
+  };
+
+  const renderInline = (inlineTokens: Token[]): string => attachSizeHints(inlineTokens).map(token => {
+    const render = previewInlines[token.type];
+    if (render) return render(token, previewContext);
+    if (token.tokens) return renderInline(token.tokens);
+    return token.text ? escapeHtml(decodeEntities(token.text)) : '';
+  }).join('');
+
+  const renderList = (list: Tokens.List, depth: number): string => {
+    const tag = list.ordered ? 'ol' : 'ul';
+    const start = typeof list.start === 'number' && list.start !== 1 ? ` start="${list.start}"` : '';
+    const listStyle = list.ordered ? ORDERED_STYLES[depth % ORDERED_STYLES.length] : BULLET_STYLES[depth % BULLET_STYLES.length];
+    const items = list.items.map(item => {
+      const [lead, ...rest] = item.tokens.filter(t => t.type !== 'checkbox' && t.type !== 'space');
+      const leadIsText = lead && (lead.type === 'text' || lead.type === 'paragraph');
+      const checkbox = item.task ? `${item.checked ? '☒' : '☐'} ` : '';
+      const children = (leadIsText ? rest : [lead, ...rest].filter(Boolean)).map(child => {
+        if (child.type === 'list') return renderList(child as Tokens.List, depth + 1);
+        if (child.type === 'text' || child.type === 'paragraph') {
+          return `<p${css({ margin: `0 0 ${points(theme.paragraphAfter)}` })}>${renderInline(paragraphTokens(child))}</p>`;
+        }
+        return renderBlocks([child]);
+      }).join('');
+      return `<li${css({
+        'list-style-type': item.task && !list.ordered ? 'none' : undefined,
+        'margin-bottom': points(item.loose ? theme.paragraphAfter : 60),
+      })}>${checkbox}${leadIsText ? renderInline(paragraphTokens(lead)) : ''}${children}</li>`;
+    }).join('');
+    return `<${tag}${start}${css({ 'list-style-type': listStyle, margin: 0, 'padding-left': points(720) })}>${items}</${tag}>`;
+  };
+
+  const renderQuote = (quote: Tokens.Blockquote): string => {
+    const [firstLine, ...restLines] = quote.text.split('\n');
+    const marker = firstLine.trim().match(CALLOUT_MARKER);
+    const calloutType = marker ? marker[1].toUpperCase() as CalloutType : null;
+    const innerTokens = calloutType ? parser.lexer(restLines.join('\n')) : quote.tokens;
+    const callout = calloutType && CALLOUT_STYLES[calloutType];
+
+    const content = innerTokens.map(child => {
+      if (child.type === 'paragraph' || child.type === 'text') {
+        return `<p${css({ margin: `0 0 ${points(callout ? 0 : 120)}` })}>${renderInline(paragraphTokens(child))}</p>`;
+      }
+      if (child.type === 'blockquote') return renderQuote(child as Tokens.Blockquote);
+      return child.type === 'space' ? '' : renderBlocks([child]);
+    }).join('');
+
+    const title = callout
+      ? `<p${css({ 'font-weight': 'bold', color: `#${callout.color}`, margin: `${points(120)} 0 ${points(60)}` })}>${escapeHtml(marker![2] || callout.label)}</p>`
+      : '';
+    return `<div${css({
+      'border-left': `2.25pt solid #${callout ? callout.color : theme.colors.border}`,
+      'padding-left': points(240),
+      margin: `0 ${callout ? points(360) : 0} ${points(callout ? 200 : 120)} ${points(360)}`,
+      background: callout && `#${callout.fill}`,
+      'font-style': callout ? undefined : 'italic',
+      color: callout ? undefined : `#${theme.colors.muted}`,
+    })}>${title}${content}</div>`;
+  };
+
+  const renderCode = (code: Tokens.Code): string => {
+    const lang = (code.lang || '').trim().split(/\s+/)[0];
+    const lines = highlightCode(code.text, lang);
+    const gutterWidth = String(lines.length).length;
+    const html = lines.map((line, index) =>
+      (settings.codeLineNumbers ? `<span${css({ color: `#${palette.lineNumber}` })}>${String(index + 1).padStart(gutterWidth)}  </span>` : '')
+      + line.map(part => `<span${css({
+        color: `#${palette.colors[part.kind]}`,
+        'font-style': part.kind === 'comment' && 'italic',
+      })}>${escapeHtml(part.text)}</span>`).join('')).join('\n');
+
+    const frame = {
+      background: `#${palette.background}`,
+      border: `0.5pt solid #${palette.border}`,
+      margin: `0 ${points(240)}`,
+      padding: `${points(160)} ${points(160)}`,
+    };
+    const showCaption = settings.codeLanguageCaption && lang !== '';
+    const caption = showCaption
+      ? `<div${css({
+          ...frame,
+          'border-bottom': 'none',
+          'margin-top': points(240),
+          'padding-bottom': 0,
+          'font-family': fontStack(theme.fonts.code),
+          'font-size': fontSize(16),
+          'font-weight': 'bold',
+          color: `#${palette.caption}`,
+        })}>${escapeHtml(languageLabel(lang))}</div>`
+      : '';
+    return caption + `<pre${css({
+      ...frame,
+      'border-top': showCaption ? 'none' : undefined,
+      'margin-top': showCaption ? 0 : points(240),
+      'margin-bottom': points(240),
+      'font-family': fontStack(theme.fonts.code),
+      'font-size': fontSize(18),
+      'line-height': 1.33,
+      'white-space': 'pre-wrap',
+      'text-indent': 0,
+    })}>${html}</pre>`;
+  };
+
+  const renderPageBreak = () =>
+    `<div${css({ 'border-top': '1px dashed #94A3B8', margin: '16px 0', 'text-align': 'center', 'font-size': '10px', color: '#94A3B8' })}>Page break</div>`;
+
+  const renderBlocks = (blockTokens: Token[]): string => blockTokens.map(token => {
+    const render = previewBlocks[token.type];
+    if (render) return render(token, previewContext);
+    if ('tokens' in token && token.tokens) return `<p${css(bodyStyle(theme))}>${renderInline(token.tokens)}</p>`;
+    return 'text' in token && token.text ? `<p>${escapeHtml(token.text)}</p>` : '';
+  }).join('');
+
+  const renderDiagramFigure = ({ fence, image }: { fence: DiagramFence; image: { url: string; width: number; height: number } }) => {
+    const size = fitImageSize(image, fence.sizeHints, maxWidth, maxHeight);
+    return renderFigureBlock(
+      `<img src="${escapeHtml(image.url)}" alt="${escapeHtml(fence.caption || '')}"${css({ width: `${size.width}px`, height: `${size.height}px`, 'max-width': '100%', 'object-fit': 'contain' })}>`,
+      fence.caption || '',
+      fence.label
+    );
+  };
+
+  const previewContext: PreviewContext = {
+    settings,
+    theme,
+    onLog,
+    renderBlocks,
+    renderInline,
+    renderImage,
+    renderFigure,
+    renderCaption,
+    renderList,
+    renderQuote,
+    renderCode: code => {
+      const diagram = diagrams.get(code);
+      return diagram ? renderDiagramFigure(diagram) : renderCode(code);
+    },
+    renderMath,
+    renderFootnote,
+    renderCitation,
+    renderPageBreak,
+    labels,
+    tableCaption: table => tableCaptions.get(table),
+    isTableCaption: token => captionTokens.has(token),
+    bibliographyPlaceholder: BIBLIOGRAPHY_PLACEHOLDER,
+  };
+
+  const renderBibliography = (withHeading: boolean) => {
+    const entries = [...citedKeys].map(key => bibliography.get(key)!).sort(compareEntries);
+    const title = typeof frontMatter?.['reference-section-title'] === 'string' ? frontMatter['reference-section-title'] : undefined;
+    const heading = theme.headings[0];
+    return (withHeading && title
+      ? `<h1${css({ 'font-size': fontSize(heading.size), color: `#${heading.color}`, 'font-weight': heading.bold ? 'bold' : 'normal', margin: `${points(heading.before)} 0 ${points(heading.after)}` })}>${escapeHtml(title)}</h1>`
+      : '')
+      + entries.map(entry => `<p${css({ 'padding-left': points(720), 'text-indent': `-${points(720)}`, margin: `0 0 ${points(theme.paragraphAfter)}` })}>${
+        formatReference(entry).map(part => part.italics ? `<em>${escapeHtml(part.text)}</em>` : escapeHtml(part.text)).join('')
+      }</p>`).join('');
+  };
+
+  const renderTitlePage = () => {
+    const lines: [string, string | undefined][] = [
+      ['Subtitle', metadata.subtitle || metadata.subject],
+      ['Author', metadata.author],
+      ['Date', metadata.date],
+    ];
+    return `<p${css({
+      'text-align': 'center',
+      'font-size': fontSize(theme.titleSize),
+      'font-weight': 'bold',
+      color: `#${theme.colors.title}`,
+      'font-family': fontStack(theme.fonts.title || theme.fonts.heading, theme.fonts.title || theme.fonts.headingEastAsia, WORD_DEFAULT_FONT),
+      margin: `${points(1440)} 0 ${points(240)}`,
+    })}>${escapeHtml(metadata.title || '')}</p>`
+      + lines.filter(([, text]) => text).map(([style, text]) => `<p${css({
+        'text-align': 'center',
+        'font-size': style === 'Subtitle' ? fontSize(Math.round(theme.titleSize * 0.6)) : undefined,
+        color: style === 'Subtitle' ? `#${theme.colors.muted}` : undefined,
+        margin: `${points(style === 'Subtitle' ? 120 : 240)} 0 ${points(120)}`,
+      })}>${escapeHtml(text!)}</p>`).join('')
+      + renderPageBreak();
+  };
+
+  const renderTableOfContents = () =>
+    `<p${css({ 'font-size': fontSize(theme.headings[0].size), color: `#${theme.headings[0].color}`, margin: `0 0 ${points(theme.headings[0].after)}` })}>${TOC_TITLE}</p>`
+    + tocEntries.map(entry => `<p${css({ margin: '0 0 4pt', 'padding-left': points(220 * (entry.level - 1)) })}>${escapeHtml(entry.title)}</p>`).join('')
+    + renderPageBreak();
+
+  if (settings.titlePage && !metadata.title) onLog("Title page requested but the front matter has no title.", "warning");
+  let content = (settings.titlePage ? renderTitlePage() : '') + (settings.toc ? renderTableOfContents() : '') + renderBlocks(tokens);
+  if (content.includes(BIBLIOGRAPHY_PLACEHOLDER)) {
+    content = content.replace(BIBLIOGRAPHY_PLACEHOLDER, () => renderBibliography(false));
+  } else if (citedKeys.size) {
+    content += renderBibliography(true);
+  }
+  if (footnotes.length) {
+    content += `<div${css({ 'border-top': `0.75pt solid #${theme.colors.border}`, width: '33%', margin: `${points(240)} 0 ${points(120)}` })}></div>`
+      + `<ol${css({ 'font-size': fontSize(Math.round((theme.bodySize || WORD_DEFAULT_SIZE) * 0.8)), margin: 0, 'padding-left': points(360) })}>`
+      + footnotes.map(note => `<li>${note}</li>`).join('') + '</ol>';
+  }
+
+  const unused = [...footnoteDefinitions.keys()].filter(label => !footnoteIds.has(label));
+  if (unused.length) onLog(`Footnote definitions never referenced: ${unused.map(label => `[^${label}]`).join(', ')}`, "warning");
+
+  const html = `<div${css({
+    'font-family': fontStack(theme.fonts.body, theme.fonts.eastAsia, WORD_DEFAULT_FONT),
+    'font-size': fontSize(theme.bodySize || WORD_DEFAULT_SIZE),
+    'line-height': lineHeight(theme),
+    color: theme.colors.text ? `#${theme.colors.text}` : '#000000',
+    'max-width': `${maxWidth}px`,
+    margin: '0 auto',
+    'overflow-wrap': 'break-word',
+  })}>${content}</div>`;
+  return { html, warnings: [...warnings] };
+};
@@ -0,0 +1,247 @@
+import { Math as DocxMath, MathComponent } from 'docx';
+import { latexToMath } from 'docx/math';
+import { Tokens, TokenizerExtension } from 'marked';
+
+// ---------------------------------------------------------------------------
+// Markdown → Word
+// ---------------------------------------------------------------------------
+
+export interface MathToken extends Tokens.Generic {
+  type: 'inlineMath' | 'blockMath';
+  raw: string;
+  text: string;
+}
+
+const findDollar = (src: string, marker: string) => {
+  const index = src.indexOf(marker);
+  return index < 0 ? undefined : index;
+};
+
+// `$$ ... $$` on its own lines (or a single line) becomes a display equation
+const blockMath: TokenizerExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: src => findDollar(src, '$$'),
+  tokenizer(src) {
+    const match = src.match(/^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/);
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+    }
+  },
+};
+
+// `$...$` follows pandoc's rules so that prices such as "$5 and $10" stay text:
+// no space after the opening dollar, none before the closing one, no digit after it.
+const inlineMath: TokenizerExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: src => findDollar(src, '$'),
+  tokenizer(src) {
+    const match = src.match(/^\$\$((?:\\.|[^\\$])+?)\$\$/) ||
+      src.match(/^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/);
+    if (match) {
+      return { type: 'inlineMath', raw: match[0], text: match[1].trim() };
+    }
+  },
+};
+
+export const mathExtensions = [blockMath, inlineMath];
+
+/**
+ * Converts LaTeX to a native Word equation. Returns null when the LaTeX uses
+ * something the converter doesn't know, so the caller can fall back to a literal.
+ */
+export const latexToDocxMath = (latex: string): { math: DocxMath | null; error?: string } => {
+  try {
+    return { math: new DocxMath({ children: latexToMath(latex) as MathComponent[] }) };
+  } catch (error) {
+    return { math: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Word (OMML) → Markdown
+// ---------------------------------------------------------------------------
+
+export const OMML_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+const SYMBOLS: Record<string, string> = {
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\epsilon', 'ϵ': '\\epsilon',
+  'ζ': '\\zeta', 'η': '\\eta', 'θ': '\\theta', 'ϑ': '\\vartheta', 'ι': '\\iota', 'κ': '\\kappa',
+  'λ': '\\lambda', 'μ': '\\mu', 'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ϖ': '\\varpi', 'ρ': '\\rho',
+  'ϱ': '\\varrho', 'σ': '\\sigma', 'ς': '\\varsigma', 'τ': '\\tau', 'υ': '\\upsilon', 'φ': '\\phi',
+  'ϕ': '\\phi', 'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega',
+  'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda', 'Ξ': '\\Xi', 'Π': '\\Pi',
+  'Σ': '\\Sigma', 'Υ': '\\Upsilon', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+  '−': '-', '±': '\\pm', '∓': '\\mp', '×': '\\times', '÷': '\\div', '·': '\\cdot', '⋅': '\\cdot', '∗': '\\ast',
+  '≤': '\\leq', '≥': '\\geq', '≠': '\\neq', '≈': '\\approx', '≡': '\\equiv', '∼': '\\sim',
+  '≃': '\\simeq', '≅': '\\cong', '∝': '\\propto', '≪': '\\ll', '≫': '\\gg',
+  '∞': '\\infty', '∂': '\\partial', '∇': '\\nabla', '∅': '\\emptyset', '∀': '\\forall', '∃': '\\exists',
+  '¬': '\\neg', '∧': '\\wedge', '∨': '\\vee', '∈': '\\in', '∉': '\\notin', '∋': '\\ni',
+  '⊂': '\\subset', '⊃': '\\supset', '⊆': '\\subseteq', '⊇': '\\supseteq', '∪': '\\cup', '∩': '\\cap',
+  '→': '\\to', '←': '\\leftarrow', '↔': '\\leftrightarrow', '⇒': '\\Rightarrow', '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow', '↦': '\\mapsto', '…': '\\ldots', '⋯': '\\cdots', '⋮': '\\vdots', '⋱': '\\ddots',
+  '′': "'", '″': "''", '°': '^\\circ', '∘': '\\circ', '⊕': '\\oplus', '⊗': '\\otimes', '⊥': '\\perp',
+  '∠': '\\angle', 'ℏ': '\\hbar', 'ℓ': '\\ell', 'ℝ': '\\mathbb{R}', 'ℕ': '\\mathbb{N}', 'ℤ': '\\mathbb{Z}',
+  'ℚ': '\\mathbb{Q}', 'ℂ': '\\mathbb{C}', '{': '\\{', '}': '\\}', '%': '\\%', '#': '\\#', '&': '\\&',
+  '⁡': '',
+};
+
+const NARY_OPERATORS: Record<string, string> = {
+  '∑': '\\sum', '∏': '\\prod', '∐': '\\coprod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint',
+  '∮': '\\oint', '⋃': '\\bigcup', '⋂': '\\bigcap', '⋁': '\\bigvee', '⋀': '\\bigwedge',
+  '⨁': '\\bigoplus', '⨂': '\\bigotimes',
+};
+
+const ACCENTS: Record<string, string> = {
+  '̂': '\\hat', '^': '\\hat', '̃': '\\tilde', '~': '\\tilde', '̄': '\\bar', '̅': '\\bar',
+  '⃗': '\\vec', '→': '\\vec', '̇': '\\dot', '̈': '\\ddot', '̌': '\\check',
+  '́': '\\acute', '̀': '\\grave', '̆': '\\breve',
+};
+
+const DELIMITERS: Record<string, string> = {
+  '': '.', '{': '\\{', '}': '\\}', '⟨': '\\langle', '⟩': '\\rangle', '〈': '\\langle', '〉': '\\rangle',
+  '‖': '\\|', '⌊': '\\lfloor', '⌋': '\\rfloor', '⌈': '\\lceil', '⌉': '\\rceil',
+};
+
+const MATRIX_ENVIRONMENTS: Record<string, string> = {
+  '()': 'pmatrix', '[]': 'bmatrix', '{}': 'Bmatrix', '||': 'vmatrix', '‖‖': 'Vmatrix',
+};
+
+const FUNCTION_NAMES = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf', 'det', 'dim',
+  'ker', 'deg', 'gcd', 'arg', 'Pr',
+]);
+
+const childElements = (element: Element, localName?: string): Element[] =>
+  Array.from(element.childNodes as ArrayLike<Node>).filter(
+    (node): node is Element => node.nodeType === 1 && (!localName || (node as Element).localName === localName)
+  );
+
+const firstChild = (element: Element, localName: string): Element | undefined =>
+  childElements(element, localName)[0];
+
+// Reads `m:val` from a property such as <m:naryPr><m:chr m:val="∑"/></m:naryPr>
+const propertyValue = (element: Element, propertiesName: string, property: string): string | undefined => {
+  const properties = firstChild(element, propertiesName);
+  const node = properties && firstChild(properties, property);
+  if (!node || !node.hasAttributeNS(OMML_NAMESPACE, 'val')) return undefined;
+  return node.getAttributeNS(OMML_NAMESPACE, 'val') ?? '';
+};
+
+// Single characters and bare commands such as \alpha need no braces
+const group = (latex: string) => /^(.|\\[A-Za-z]+)$/.test(latex) ? latex : `{${latex}}`;
+
+// A command directly followed by a letter (`\alpha x`) needs a separating space
+const joinLatex = (parts: string[]): string =>
+  parts.reduce((latex, part) =>
+    /\\[A-Za-z]+$/.test(latex) && /^[A-Za-z]/.test(part) ? `${latex} ${part}` : latex + part, '');
+
+const textToLatex = (text: string, inFunctionName: boolean): string => {
+  if (inFunctionName && FUNCTION_NAMES.has(text.trim())) return `\\${text.trim()}`;
+  if (inFunctionName && /^[A-Za-z]{2,}$/.test(text.trim())) return `\\operatorname{${text.trim()}}`;
+  return joinLatex(Array.from(text, char => SYMBOLS[char] ?? char));
+};
+
+const convertChildren = (element: Element | undefined, inFunctionName = false): string =>
+  element ? joinLatex(childElements(element).map(child => convertElement(child, inFunctionName))) : '';
+
+const convertDelimiter = (element: Element): string => {
+  const open = propertyValue(element, 'dPr', 'begChr') ?? '(';
+  const close = propertyValue(element, 'dPr', 'endChr') ?? ')';
+  const separator = propertyValue(element, 'dPr', 'sepChr') ?? '|';
+  const items = childElements(element, 'e');
+
+  // A bracketed matrix is written as the matching LaTeX environment
+  const matrix = items.length === 1 && childElements(items[0]).length === 1 && firstChild(items[0], 'm');
+  const environment = matrix && MATRIX_ENVIRONMENTS[open + close];
+  if (matrix && environment) return convertMatrix(matrix, environment);
+
+  const body = items.map(item => convertChildren(item)).join(textToLatex(separator, false));
+  if (open === '(' && close === ')' || open === '[' && close === ']') {
+    return `\\left${open}${body}\\right${close}`;
+  }
+  return `\\left${DELIMITERS[open] ?? open}${body}\\right${DELIMITERS[close] ?? close}`;
+};
+
+const convertMatrix = (element: Element, environment = 'matrix'): string => {
+  const rows = childElements(element, 'mr').map(row =>
+    childElements(row, 'e').map(cell => convertChildren(cell)).join(' & ')
+  );
+  return `\\begin{${environment}}${rows.join(' \\\\ ')}\\end{${environment}}`;
+};
+
+const convertElement = (element: Element, inFunctionName = false): string => {
+  switch (element.localName) {
+    case 'r':
+      return joinLatex(childElements(element, 't').map(t => textToLatex(t.textContent || '', inFunctionName)));
+    case 'f':
+      return `\\frac{${convertChildren(firstChild(element, 'num'))}}{${convertChildren(firstChild(element, 'den'))}}`;
+    case 'sSup':
+      return `${group(convertChildren(firstChild(element, 'e')))}^${group(convertChildren(firstChild(element, 'sup')))}`;
+    case 'sSub':
+      return `${group(convertChildren(firstChild(element, 'e')))}_${group(convertChildren(firstChild(element, 'sub')))}`;
+    case 'sSubSup':
+      return `${group(convertChildren(firstChild(element, 'e')))}_${group(convertChildren(firstChild(element, 'sub')))}^${group(convertChildren(firstChild(element, 'sup')))}`;
+    case 'sPre':
+      return `{}_${group(convertChildren(firstChild(element, 'sub')))}^${group(convertChildren(firstChild(element, 'sup')))}${group(convertChildren(firstChild(element, 'e')))}`;
+    case 'rad': {
+      const degree = convertChildren(firstChild(element, 'deg'));
+      const body = convertChildren(firstChild(element, 'e'));
+      return degree ? `\\sqrt[${degree}]{${body}}` : `\\sqrt{${body}}`;
+    }
+    case 'nary': {
+      const chr = propertyValue(element, 'naryPr', 'chr') ?? '∫';
+      const lower = convertChildren(firstChild(element, 'sub'));
+      const upper = convertChildren(firstChild(element, 'sup'));
+      const operator = NARY_OPERATORS[chr] ?? textToLatex(chr, false);
+      return `${operator}${lower ? `_${group(lower)}` : ''}${upper ? `^${group(upper)}` : ''} ${convertChildren(firstChild(element, 'e'))}`;
+    }
+    case 'func':
+      return `${convertChildren(firstChild(element, 'fName'), true)} ${convertChildren(firstChild(element, 'e'))}`;
+    case 'limLow':
+      return `${convertChildren(firstChild(element, 'e'), inFunctionName)}_${group(convertChildren(firstChild(element, 'lim')))}`;
+    case 'limUpp':
+      return `\\overset{${convertChildren(firstChild(element, 'lim'))}}{${convertChildren(firstChild(element, 'e'))}}`;
+    case 'acc': {
+      const chr = propertyValue(element, 'accPr', 'chr') ?? '̂';
+      return `${ACCENTS[chr] ?? '\\hat'}{${convertChildren(firstChild(element, 'e'))}}`;
+    }
+    case 'bar': {
+      const position = propertyValue(element, 'barPr', 'pos');
+      return `${position === 'top' ? '\\overline' : '\\underline'}{${convertChildren(firstChild(element, 'e'))}}`;
+    }
+    case 'groupChr': {
+      const chr = propertyValue(element, 'groupChrPr', 'chr') ?? '⏟';
+      const command = chr === '⏞' ? '\\overbrace' : '\\underbrace';
+      return `${command}{${convertChildren(firstChild(element, 'e'))}}`;
+    }
+    case 'borderBox':
+      return `\\boxed{${convertChildren(firstChild(element, 'e'))}}`;
+    case 'd':
+      return convertDelimiter(element);
+    case 'm':
+      return convertMatrix(element);
+    case 'eqArr': {
+      const rows = childElements(element, 'e').map(row => convertChildren(row));
+      return `\\begin{aligned}${rows.join(' \\\\ ')}\\end{aligned}`;
+    }
+    case 'oMathPara':
+    case 'oMath':
+    case 'e':
+    case 'box':
+    case 'phant':
+      return convertChildren(element, inFunctionName);
+    default:
+      // Property elements (m:rPr, m:fPr, ...) and anything unknown carry no content
+      return element.localName.endsWith('Pr') ? '' : convertChildren(element, inFunctionName);
+  }
+};
+
+/**
+ * Converts an `m:oMath` or `m:oMathPara` element into LaTeX source, without the
+ * surrounding dollar signs.
+ */
+export const ommlToLatex = (element: Element): string =>
+  convertElement(element).replace(/\s+/g, ' ').trim();
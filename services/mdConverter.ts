@@ -1,52 +1,637 @@
 
 import * as mammoth from 'mammoth';
+import JSZip from 'jszip';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import {
+  QUOTE_STYLE_NAME,
+  QUOTE_INDENT_TWIPS,
+  CALLOUT_STYLES,
+  CalloutType,
+  calloutStyleName,
+  calloutTitleStyleName,
+  CAPTION_STYLE_NAME,
+  FIGURE_LABEL,
+  TITLE_BLOCK_STYLES,
+  TOC_HEADING_STYLE_NAME,
+  BODY_TEXT_STYLE_NAME,
+  BIBLIOGRAPHY_STYLE_NAME,
+  LIST_INDENT_TWIPS,
+  TASK_BOX_FONT
+} from './docStyles';
+import { ommlToLatex, OMML_NAMESPACE } from './mathConverter';
+import { BUNDLE_IMAGE_DIR, extensionForContentType } from './markdownBundle';
+import { stringifyFrontMatter, FrontMatterData } from './frontMatter';
+import { diagramFromDescription } from './diagramRenderer';
+import { htmlToMarkdown, escapeMarkdownText } from './htmlToMarkdown';
+import { enabledPlugins } from './rendererPlugins';
+import { MarkdownResult, DocumentMetadata, WordImportOptions, CommentHandling } from '../types';
 
-export const convertDocxToMd = async (
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const SVG_BLIP_NAMESPACE = 'http://schemas.microsoft.com/office/drawing/2016/SVG/main';
+const MATH_MARKER = /@@MATH:(BLOCK|INLINE):(\d+)@@/g;
+const DIAGRAM_MARKER = /@@DIAGRAM:(\d+)@@/g;
+const DIAGRAM_PLACEHOLDER = /!\[\]\(DIAGRAM_PLACEHOLDER_(\d+)\)(?:\n\n@@CAPTION@@[^\n]*)?/g;
+// Comment references and tracked changes, marked in document.xml before mammoth reads it
+const COMMENT_MARKER = /@@COMMENT:(\d+)@@/g;
+const CHANGE_MARKERS: [RegExp, string][] = [[/@@INS@@/g, '{++'], [/@@\/INS@@/g, '++}'], [/@@DEL@@/g, '{--'], [/@@\/DEL@@/g, '--}']];
+// The first item of a list that doesn't start at 1 carries its start number, which
+// moves onto mammoth's <ol>; a quote marker may come first
+const LIST_START_MARKER = /@@START:(\d+)@@/g;
+const LIST_START = /<ol>(<li>(?:<p>)?(?:@@[A-Z]+:[A-Z]*:\d+@@)?)@@START:(\d+)@@/g;
+// Likewise each cell of a table's first row carries its paragraph alignment, which
+// becomes the cell's align attribute and so the column's in the pipe table
+const CELL_ALIGN_MARKER = /@@ALIGN:\w+@@/g;
+const CELL_ALIGN = /<(t[hd])((?: [^>]*)?)>(<p>)?@@ALIGN:(\w+)@@/g;
+const CELL_ALIGNMENTS: Record<string, string> = { left: 'left', start: 'left', center: 'center', right: 'right', end: 'right' };
+
+export const DEFAULT_WORD_IMPORT_OPTIONS: WordImportOptions = {
+  imageDir: BUNDLE_IMAGE_DIR,
+  comments: 'html',
+  trackedChanges: 'accept',
+  styleMap: [],
+  disabledPlugins: [],
+};
+
+const STORAGE_KEY = 'md2word-pro.word-import';
+
+/** Comment and tracked-change handling and the extra style map, as saved in this browser. */
+export const loadWordImportOptions = (): WordImportOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved) return DEFAULT_WORD_IMPORT_OPTIONS;
+    return {
+      ...DEFAULT_WORD_IMPORT_OPTIONS,
+      comments: ['html', 'footnotes', 'drop'].includes(saved.comments) ? saved.comments : DEFAULT_WORD_IMPORT_OPTIONS.comments,
+      trackedChanges: saved.trackedChanges === 'markup' ? 'markup' : 'accept',
+      styleMap: Array.isArray(saved.styleMap) ? saved.styleMap.filter((line: any) => typeof line === 'string') : [],
+    };
+  } catch {
+    return DEFAULT_WORD_IMPORT_OPTIONS;
+  }
+};
+
+export const saveWordImportOptions = ({ comments, trackedChanges, styleMap }: WordImportOptions) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ comments, trackedChanges, styleMap }));
+  } catch {
+    // Private browsing or a full quota: the settings last for this session only
+  }
+};
+
+// Styles mammoth has no mapping for but that are handled here, or that are only
+// Word's name for an ordinary paragraph
+const HANDLED_STYLES = new Set<string>([
+  BODY_TEXT_STYLE_NAME, BIBLIOGRAPHY_STYLE_NAME, CAPTION_STYLE_NAME, TOC_HEADING_STYLE_NAME,
+  'First Paragraph', 'Compact', 'annotation reference', 'CommentReference',
+  ...TITLE_BLOCK_STYLES,
+]);
+
+// Markers are injected as plain text so they survive mammoth's markdown writer,
+// then expanded into `>` / `> [!TYPE]` syntax once the markdown is generated.
+const QUOTE_MARKER = /^@@(QUOTE|CALLOUT|TITLE):([A-Z]*):(\d+)@@/;
+
+const TITLE_BLOCK_MARKER = /^(?:#+ )?@@TITLEBLOCK:(\w+)@@(.*)$/;
+const CORE_PROPERTIES_NAMESPACES = {
+  dc: 'http://purl.org/dc/elements/1.1/',
+  cp: 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties',
+  dcterms: 'http://purl.org/dc/terms/',
+};
+
+// Figure captions are regenerated from alt text on the way back to Word, so a
+// caption directly under an image is folded into that image instead of kept.
+const CAPTION_MARKER = '@@CAPTION@@';
+const CAPTION_PREFIX = new RegExp(`^${FIGURE_LABEL}\\s*\\d*\\s*[:.]?\\s*`, 'i');
+
+// Word rebuilds a table of contents and heading numbers itself, so only the fact
+// that the document had them is kept, as `toc` / `numbered-headings` front matter.
+const TOC_MARKER = '@@TOC@@';
+const NUMBERED_HEADING_MARKER = '@@NUMBERED@@';
+
+// Unordered task items carry their nesting depth until they are turned back into `- [ ]` lines
+const TASK_MARKER = /^@@TASK:(\d+)@@([\u2610\u2612]) ([\s\S]*)$/;
+const TOC_ENTRY_STYLE = /^toc ?\d$/i;
+const HEADING_STYLE = /^Heading [1-6]$/;
+
+const QUOTE_STYLES = new Map<string, { kind: string; type: string }>([
+  [QUOTE_STYLE_NAME, { kind: 'QUOTE', type: '' }],
+  ['Intense Quote', { kind: 'QUOTE', type: '' }],
+  ...(Object.keys(CALLOUT_STYLES) as CalloutType[]).flatMap(type => [
+    [calloutStyleName(type), { kind: 'CALLOUT', type }],
+    [calloutTitleStyleName(type), { kind: 'TITLE', type }],
+  ] as [string, { kind: string; type: string }][]),
+]);
+
+const markStyledParagraphs = (mammothModule: any) => mammothModule.transforms.paragraph((paragraph: any) => {
+  const [firstText] = mammothModule.transforms.getDescendantsOfType(paragraph, 'text');
+  if (paragraph.styleName === CAPTION_STYLE_NAME) {
+    if (firstText) firstText.value = CAPTION_MARKER + firstText.value;
+    return paragraph;
+  }
+  if (paragraph.styleName === TOC_HEADING_STYLE_NAME || TOC_ENTRY_STYLE.test(paragraph.styleName || paragraph.styleId || '')) {
+    paragraph.children = [{ type: 'run', children: [{ type: 'text', value: TOC_MARKER }] }];
+    return paragraph;
+  }
+  if (HEADING_STYLE.test(paragraph.styleName) && paragraph.numbering) {
+    if (firstText) firstText.value = NUMBERED_HEADING_MARKER + firstText.value;
+    return paragraph;
+  }
+  const [firstRun] = mammothModule.transforms.getDescendantsOfType(paragraph, 'run');
+  if (!paragraph.numbering && firstRun?.font === TASK_BOX_FONT && firstText && /^[\u2610\u2612] /.test(firstText.value)) {
+    const depth = Math.max(0, Math.round(Number(paragraph.indent.start || LIST_INDENT_TWIPS) / LIST_INDENT_TWIPS) - 1);
+    firstText.value = `@@TASK:${depth}@@` + firstText.value;
+    return paragraph;
+  }
+  if (TITLE_BLOCK_STYLES.includes(paragraph.styleName)) {
+    if (firstText) firstText.value = `@@TITLEBLOCK:${paragraph.styleName}@@` + firstText.value;
+    return paragraph;
+  }
+
+  const quote = paragraph.styleName && QUOTE_STYLES.get(paragraph.styleName);
+  if (!quote) return paragraph;
+
+  const depth = Math.max(1, Math.round(Number(paragraph.indent.start || QUOTE_INDENT_TWIPS) / QUOTE_INDENT_TWIPS));
+  const marker = `@@${quote.kind}:${quote.type}:${depth}@@`;
+
+  if (firstText) {
+    firstText.value = marker + firstText.value;
+  } else if (quote.kind === 'TITLE') {
+    // An empty title still has to open the callout
+    paragraph.children = [{ type: 'run', children: [{ type: 'text', value: marker }] }];
+  }
+  return paragraph;
+});
+
+const readCoreProperties = async (zip: JSZip): Promise<DocumentMetadata> => {
+  const coreFile = zip.file('docProps/core.xml');
+  if (!coreFile) return {};
+
+  const doc = new DOMParser().parseFromString(await coreFile.async('string'), 'text/xml');
+  const read = (namespace: keyof typeof CORE_PROPERTIES_NAMESPACES, name: string) =>
+    doc.getElementsByTagNameNS(CORE_PROPERTIES_NAMESPACES[namespace], name)[0]?.textContent?.trim() || undefined;
+
+  const author = read('dc', 'creator');
+  const keywords = read('cp', 'keywords')?.split(/[,;]\s*/).filter(Boolean);
+  return {
+    title: read('dc', 'title'),
+    // "Un-named" is the docx library's placeholder, not a real author
+    author: author === 'Un-named' ? undefined : author,
+    subject: read('dc', 'subject'),
+    keywords: keywords?.length ? keywords : undefined,
+    date: read('dcterms', 'created')?.slice(0, 10),
+    description: read('dc', 'description'),
+  };
+};
+
+// Pulls title page paragraphs out of the body; their text completes the metadata
+const extractTitleBlock = (markdown: string, metadata: DocumentMetadata): { markdown: string; found: boolean } => {
+  let found = false;
+  const blocks = markdown.split(/\n{2,}/).filter(block => {
+    const match = block.match(TITLE_BLOCK_MARKER);
+    if (!match) return true;
+
+    found = true;
+    const text = match[2].trim();
+    const field = match[1].toLowerCase() as 'title' | 'subtitle' | 'author' | 'date';
+    if (text && (field === 'date' || field === 'subtitle' || !metadata[field])) metadata[field] = text;
+    return false;
+  });
+  return { markdown: blocks.join('\n\n'), found };
+};
+
+// Drops the table of contents and heading-number markers, reporting which were present
+const extractLayoutMarkers = (markdown: string): { markdown: string; toc: boolean; numberedHeadings: boolean } => {
+  const toc = markdown.includes(TOC_MARKER);
+  const numberedHeadings = markdown.includes(NUMBERED_HEADING_MARKER);
+  const blocks = markdown.split(/\n{2,}/).filter(block => !block.includes(TOC_MARKER));
+  return { markdown: blocks.join('\n\n').split(NUMBERED_HEADING_MARKER).join(''), toc, numberedHeadings };
+};
+
+const buildFrontMatter = (
+  metadata: DocumentMetadata,
+  layout: { titlePage: boolean; toc: boolean; numberedHeadings: boolean }
+): string => {
+  const { title, subtitle, author, subject, keywords, date, description } = metadata;
+  // A creation date alone is not worth a front matter block
+  const hasLayout = layout.titlePage || layout.toc || layout.numberedHeadings;
+  if (!title && !subtitle && !author && !subject && !keywords && !description && !hasLayout) return '';
+
+  const data: FrontMatterData = {};
+  const fields: [string, string | string[] | undefined][] = [
+    ['title', title], ['subtitle', subtitle], ['author', author], ['subject', subject],
+    ['keywords', keywords], ['date', date], ['description', description],
+  ];
+  for (const [key, value] of fields) if (value) data[key] = value;
+  if (layout.titlePage) data['title-page'] = true;
+  if (layout.toc) data['toc'] = true;
+  if (layout.numberedHeadings) data['numbered-headings'] = true;
+  return stringifyFrontMatter(data);
+};
+
+const restoreCaptions = (markdown: string): string => markdown
+  .replace(/!\[([^\]\n]*)\]\(([^)\n]+)\)\n\n@@CAPTION@@([^\n]*)/g, (_: string, alt: string, src: string, caption: string) =>
+    `![${alt || caption.replace(CAPTION_PREFIX, '').trim()}](${src})`)
+  .split(CAPTION_MARKER).join('');
+
+// Consecutive task paragraphs become one tight list, nested by their recorded depth
+const restoreTaskItems = (markdown: string): string => {
+  const output: string[] = [];
+  let inList = false;
+  for (const block of markdown.split(/\n{2,}/)) {
+    const task = block.match(TASK_MARKER);
+    if (!task) {
+      output.push(block);
+      inList = false;
+      continue;
+    }
+    const [, depth, box, text] = task;
+    const item = `${'  '.repeat(Number(depth))}- [${box === '\u2612' ? 'x' : ' '}] ${text}`;
+    if (inList) output[output.length - 1] += `\n${item}`;
+    else output.push(item);
+    inList = true;
+  }
+  return output.join('\n\n');
+};
+
+const restoreQuotes = (markdown: string): string => {
+  const output: string[] = [];
+  let previous: { depth: number; group: string; isTitle: boolean } | null = null;
+
+  for (const block of markdown.split(/\n{2,}/)) {
+    const marker = block.match(QUOTE_MARKER);
+    if (!marker) {
+      output.push(block);
+      previous = null;
+      continue;
+    }
+
+    const [raw, kind, type, depthText] = marker;
+    const depth = Number(depthText);
+    const prefix = '> '.repeat(depth);
+    const text = block.slice(raw.length).trim();
+
+    if (kind === 'TITLE') {
+      // Custom titles are kept in the Obsidian-style `[!TYPE] Title` form
+      const title = text && text !== CALLOUT_STYLES[type as CalloutType].label ? ` ${text}` : '';
+      output.push(`${prefix}[!${type}]${title}`);
+      previous = { depth, group: type, isTitle: true };
+      continue;
+    }
+    if (!text) continue;
+
+    const group = kind === 'QUOTE' ? kind : type;
+    const quoted = text.split('\n').map(line => prefix + line).join('\n');
+
+    // Consecutive quoted paragraphs stay inside the same blockquote; a nested
+    // quote continues whatever box encloses it
+    if (previous && (depth > 1 || group === previous.group)) {
+      const separator = previous.isTitle ? '' : '>'.repeat(Math.min(previous.depth, depth)) + '\n';
+      output[output.length - 1] += `\n${separator}${quoted}`;
+    } else {
+      output.push(quoted);
+    }
+    previous = { depth, group, isTitle: false };
+  }
+
+  return output.join('\n\n');
+};
+
+// Start numbers other than 1 by `numId:level`, from the list definitions and the
+// overrides of each list that uses them
+const readListStarts = async (zip: JSZip): Promise<Map<string, number>> => {
+  const starts = new Map<string, number>();
+  const numberingFile = zip.file('word/numbering.xml');
+  if (!numberingFile) return starts;
+
+  const doc = new DOMParser().parseFromString(await numberingFile.async('string'), 'text/xml');
+  const value = (parent: Element, name: string) =>
+    parent.getElementsByTagNameNS(WORD_NAMESPACE, name)[0]?.getAttributeNS(WORD_NAMESPACE, 'val') || undefined;
+  const levelStarts = (parent: Element, level: string, start: string) =>
+    Array.from(parent.getElementsByTagNameNS(WORD_NAMESPACE, level)).flatMap((element): [string, number][] => {
+      const found = value(element, start);
+      return found ? [[element.getAttributeNS(WORD_NAMESPACE, 'ilvl') || '0', Number(found)]] : [];
+    });
+
+  const abstractStarts = new Map<string, [string, number][]>();
+  for (const abstract of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'abstractNum'))) {
+    abstractStarts.set(abstract.getAttributeNS(WORD_NAMESPACE, 'abstractNumId') || '', levelStarts(abstract, 'lvl', 'start'));
+  }
+  for (const num of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'num'))) {
+    const numId = num.getAttributeNS(WORD_NAMESPACE, 'numId') || '';
+    const levels = new Map([
+      ...abstractStarts.get(value(num, 'abstractNumId') || '') || [],
+      ...levelStarts(num, 'lvlOverride', 'startOverride'),
+    ]);
+    levels.forEach((start, level) => { if (start !== 1) starts.set(`${numId}:${level}`, start); });
+  }
+  return starts;
+};
+
+interface WordComment {
+  author: string;
+  text: string;
+}
+
+const readComments = async (zip: JSZip): Promise<Map<string, WordComment>> => {
+  const comments = new Map<string, WordComment>();
+  const commentsFile = zip.file('word/comments.xml');
+  if (!commentsFile) return comments;
+
+  const doc = new DOMParser().parseFromString(await commentsFile.async('string'), 'text/xml');
+  for (const comment of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'comment'))) {
+    const paragraphs = Array.from(comment.getElementsByTagNameNS(WORD_NAMESPACE, 'p')).map(paragraph =>
+      Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, 't')).map(text => text.textContent).join('').trim());
+    comments.set(comment.getAttributeNS(WORD_NAMESPACE, 'id') || '', {
+      author: comment.getAttributeNS(WORD_NAMESPACE, 'author') || '',
+      text: paragraphs.filter(Boolean).join(' '),
+    });
+  }
+  return comments;
+};
+
+// Rewrites document.xml before mammoth sees it:
+// - mammoth drops OMML equations entirely, so they are converted to LaTeX up front
+//   and replaced by text markers that survive the conversion.
+// - SVG pictures keep only a PNG fallback in a:blip, so the blip is pointed at the
+//   SVG part itself and the original vector image gets extracted.
+// - Simple fields (SEQ caption numbers, REF cross-references) are unwrapped so
+//   mammoth keeps their last displayed result instead of dropping it.
+// - Comment references become markers, and so do tracked changes when they are
+//   kept as markup; mammoth itself accepts every change.
+const prepareDocument = async (
   arrayBuffer: ArrayBuffer,
+  options: WordImportOptions
+): Promise<{ arrayBuffer: ArrayBuffer; equations: string[]; metadata: DocumentMetadata; comments: Map<string, WordComment>; changes: number }> => {
+  const zip = await JSZip.loadAsync(arrayBuffer);
+  const metadata = await readCoreProperties(zip);
+  const comments = options.comments === 'drop' ? new Map<string, WordComment>() : await readComments(zip);
+  const listStarts = await readListStarts(zip);
+  const documentFile = zip.file('word/document.xml');
+  const xml = documentFile ? await documentFile.async('string') : '';
+  const hasChanges = /<w:(ins|del|moveFrom|moveTo)\b/.test(xml);
+  // mammoth reads any w:tblHeader as a header row, even one switched off
+  const hasHeaderOff = /<w:tblHeader\b[^>]*w:val="(?:off|false|0)"/.test(xml);
+  if (!xml.includes('oMath') && !xml.includes('svgBlip') && !xml.includes('fldSimple') && !xml.includes('<w:tbl>') && !hasChanges && !hasHeaderOff && !comments.size && !listStarts.size) {
+    return { arrayBuffer, equations: [], metadata, comments, changes: 0 };
+  }
+
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const equations: string[] = [];
+  const markerRun = (marker: string) => {
+    const run = doc.createElementNS(WORD_NAMESPACE, 'w:r');
+    const text = doc.createElementNS(WORD_NAMESPACE, 'w:t');
+    text.appendChild(doc.createTextNode(marker));
+    run.appendChild(text);
+    return run;
+  };
+
+  const replaceWithMarker = (element: Element, kind: 'BLOCK' | 'INLINE') => {
+    const run = markerRun(`@@MATH:${kind}:${equations.length}@@`);
+    equations.push(ommlToLatex(element as unknown as globalThis.Element));
+    element.parentNode?.replaceChild(run, element);
+  };
+
+  // Display equations first, so the inline pass only sees equations inside text
+  for (const element of Array.from(doc.getElementsByTagNameNS(OMML_NAMESPACE, 'oMathPara'))) {
+    replaceWithMarker(element, 'BLOCK');
+  }
+  for (const element of Array.from(doc.getElementsByTagNameNS(OMML_NAMESPACE, 'oMath'))) {
+    // An equation alone in its paragraph is displayed even without m:oMathPara
+    const parent = element.parentNode as Element | null;
+    const siblings = Array.from(parent?.childNodes || []).filter(node => node.nodeType === 1 && node !== element);
+    const standalone = parent?.localName === 'p' && siblings.every(node => (node as Element).localName === 'pPr');
+    replaceWithMarker(element, standalone ? 'BLOCK' : 'INLINE');
+  }
+
+  for (const svgBlip of Array.from(doc.getElementsByTagNameNS(SVG_BLIP_NAMESPACE, 'svgBlip'))) {
+    let blip = svgBlip.parentNode as Element | null;
+    while (blip && blip.localName !== 'blip') blip = blip.parentNode as Element | null;
+    const svgId = svgBlip.getAttributeNS(RELATIONSHIP_NAMESPACE, 'embed');
+    if (blip && svgId) blip.setAttributeNS(RELATIONSHIP_NAMESPACE, 'r:embed', svgId);
+  }
+
+  for (const field of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'fldSimple'))) {
+    while (field.firstChild) field.parentNode?.insertBefore(field.firstChild, field);
+    field.parentNode?.removeChild(field);
+  }
+
+  for (const header of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'tblHeader'))) {
+    if (/^(off|false|0)$/.test(header.getAttributeNS(WORD_NAMESPACE, 'val') || '')) header.parentNode?.removeChild(header);
+  }
+
+  for (const reference of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'commentReference'))) {
+    const id = reference.getAttributeNS(WORD_NAMESPACE, 'id') || '';
+    if (!comments.has(id)) continue;
+    const text = doc.createElementNS(WORD_NAMESPACE, 'w:t');
+    text.appendChild(doc.createTextNode(`@@COMMENT:${id}@@`));
+    reference.parentNode?.replaceChild(text, reference);
+  }
+
+  const children = (parent: Element | undefined, name: string) =>
+    Array.from(parent?.childNodes || []).filter((node): node is Element => (node as Element).localName === name);
+  for (const table of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'tbl'))) {
+    for (const cell of children(children(table, 'tr')[0], 'tc')) {
+      const [paragraph] = children(cell, 'p');
+      const [properties] = children(paragraph, 'pPr');
+      const align = CELL_ALIGNMENTS[children(properties, 'jc')[0]?.getAttributeNS(WORD_NAMESPACE, 'val') || ''];
+      if (align) paragraph.insertBefore(markerRun(`@@ALIGN:${align}@@`), properties.nextSibling);
+    }
+  }
+
+  // A list restarts its deeper levels whenever a shallower item comes between
+  const listsBegun = new Set<string>();
+  for (const paragraph of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'p'))) {
+    const [properties] = children(paragraph, 'pPr');
+    const numbering = properties?.getElementsByTagNameNS(WORD_NAMESPACE, 'numPr')[0];
+    const numId = numbering?.getElementsByTagNameNS(WORD_NAMESPACE, 'numId')[0]?.getAttributeNS(WORD_NAMESPACE, 'val');
+    if (!numbering || !numId) continue;
+    const level = Number(numbering.getElementsByTagNameNS(WORD_NAMESPACE, 'ilvl')[0]?.getAttributeNS(WORD_NAMESPACE, 'val') || 0);
+    listsBegun.forEach(key => {
+      const [id, begun] = key.split(':');
+      if (id === numId && Number(begun) > level) listsBegun.delete(key);
+    });
+    const key = `${numId}:${level}`;
+    if (listsBegun.has(key)) continue;
+    listsBegun.add(key);
+    const start = listStarts.get(key);
+    if (start !== undefined) paragraph.insertBefore(markerRun(`@@START:${start}@@`), properties!.nextSibling);
+  }
+
+  // Only changes to content count; w:ins and w:del also record formatting and
+  // paragraph mark changes inside w:rPr and w:pPr
+  const changes = ['ins', 'del', 'moveFrom', 'moveTo']
+    .flatMap(name => Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, name)))
+    .filter(change => !/^(rPr|pPr|trPr)$/.test((change.parentNode as Element | null)?.localName || ''));
+  if (options.trackedChanges === 'markup') {
+    for (const change of changes) {
+      const deleted = change.localName === 'del' || change.localName === 'moveFrom';
+      const kind = deleted ? 'DEL' : 'INS';
+      if (deleted) {
+        // mammoth skips deletions, so their runs are moved out with readable text
+        for (const deletedText of Array.from(change.getElementsByTagNameNS(WORD_NAMESPACE, 'delText'))) {
+          const text = doc.createElementNS(WORD_NAMESPACE, 'w:t');
+          text.setAttribute('xml:space', 'preserve');
+          text.appendChild(doc.createTextNode(deletedText.textContent || ''));
+          deletedText.parentNode?.replaceChild(text, deletedText);
+        }
+      }
+      change.parentNode?.insertBefore(markerRun(`@@${kind}@@`), change);
+      while (change.firstChild) change.parentNode?.insertBefore(change.firstChild, change);
+      change.parentNode?.replaceChild(markerRun(`@@/${kind}@@`), change);
+    }
+  }
+
+  zip.file('word/document.xml', new XMLSerializer().serializeToString(doc));
+  return { arrayBuffer: await zip.generateAsync({ type: 'arraybuffer' }), equations, metadata, comments, changes: changes.length };
+};
+
+// Comment markers become HTML comments or `[^cN]` notes, in reading order
+const placeComments = (markdown: string, comments: Map<string, WordComment>, handling: CommentHandling): string => {
+  const notes: string[] = [];
+  const body = markdown.replace(COMMENT_MARKER, (_: string, id: string) => {
+    const { author, text } = comments.get(id)!;
+    if (handling === 'drop') return '';
+    if (handling === 'html') return `<!-- ${author ? `${author}: ` : ''}${text.replace(/--/g, '\u2013')} -->`;
+    notes.push(`[^c${notes.length + 1}]: ${author ? `${escapeMarkdownText(author)}: ` : ''}${escapeMarkdownText(text)}`);
+    return `[^c${notes.length}]`;
+  });
+  return notes.length ? `${body.trimEnd()}\n\n${notes.join('\n\n')}\n` : body;
+};
+
+// mammoth reports every style it has no mapping for; the ones worth mapping are
+// listed once, so they can be added to the style map
+const reportMessages = (
+  messages: { message: string }[],
   onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void
-): Promise<string> => {
+) => {
+  const unmapped = new Set<string>();
+  for (const { message } of messages) {
+    const style = message.match(/^Unrecognised (?:paragraph|run) style: '([^']*)' \(Style ID: ([^)]*)\)/);
+    if (style) {
+      // A style used but never defined has no name, only its id
+      const name = style[1] === 'null' ? style[2] : style[1];
+      if (!HANDLED_STYLES.has(name) && !QUOTE_STYLES.has(name) && !TOC_ENTRY_STYLE.test(name)) unmapped.add(`'${name}'`);
+    } else {
+      // A style map line mammoth could not parse is the user's to fix
+      onLog(message, message.startsWith('Did not understand this style mapping') ? "warning" : "info");
+    }
+  }
+  if (unmapped.size) {
+    onLog(`Styles converted as plain text: ${[...unmapped].join(', ')}. Add them to the style map to keep them.`, "info");
+  }
+};
+
+export const convertDocxToMd = async (
+  arrayBuffer: ArrayBuffer,
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void,
+  importOptions: Partial<WordImportOptions> = {}
+): Promise<MarkdownResult> => {
   onLog("Analyzing Word structure and identifying assets...", "info");
 
-  let imageCounter = 1;
+  const settings: WordImportOptions = { ...DEFAULT_WORD_IMPORT_OPTIONS, ...importOptions };
+  const plugins = enabledPlugins(settings.disabledPlugins);
+  const images = new Map<string, ArrayBuffer>();
+  const diagramFences: string[] = [];
   const options = {
+    transformDocument: markStyledParagraphs(mammoth),
+    // Custom mappings come first, so they win over the plugins' ones
     styleMap: [
-      "p[style-name='Code'] => pre > code:fresh",
-      "p[style-name='Source Code'] => pre > code:fresh",
-      "p[style-name='Consolas'] => code",
-      "r[style-name='Code Text'] => code",
-      "p[style-name='Heading 1'] => h1:fresh",
-      "p[style-name='Heading 2'] => h2:fresh",
-      "p[style-name='Heading 3'] => h3:fresh"
+      ...settings.styleMap.map(line => line.trim()).filter(line => line && !line.startsWith('#')),
+      ...plugins.flatMap(plugin => plugin.word?.styleMap || [])
     ],
-    // Instead of embedding massive Base64 strings, we use clean placeholders.
-    // This fixes the "messy export" issue and prepares the doc for AI organization.
-    convertImage: mammoth.images.imgElement((element) => {
-      const id = imageCounter++;
-      onLog(`Asset detected: Image #${id}`, "success");
-      return Promise.resolve({
-        src: `IMAGE_PATH_PLACEHOLDER_${id}`
-      });
+    // Instead of embedding massive Base64 strings, each image is saved under images/
+    // with the extension of its real format and linked by its path.
+    convertImage: mammoth.images.imgElement(async (element: any) => {
+      // A rendered diagram turns back into the fence it was drawn from
+      const fence = diagramFromDescription(element.altText);
+      if (fence) {
+        diagramFences.push(fence);
+        return { src: `DIAGRAM_PLACEHOLDER_${diagramFences.length - 1}`, alt: '' };
+      }
+
+      const id = images.size + 1;
+      const path = `${settings.imageDir}/figure_${id}.${extensionForContentType(element.contentType)}`;
+      const bytes: Uint8Array = await element.read();
+      images.set(path, bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+
+      if (/\.(emf|wmf|tiff?)$/i.test(path)) {
+        onLog(`Asset detected: Image #${id} (${element.contentType}) may not display outside Word`, "warning");
+      } else {
+        onLog(`Asset detected: Image #${id} (${element.contentType})`, "success");
+      }
+      return { src: path };
     })
   };
 
   try {
-    const result = await (mammoth as any).convertToMarkdown({ arrayBuffer }, options);
-    let markdown = result.value;
+    const extracted = await prepareDocument(arrayBuffer, settings);
+    if (extracted.equations.length > 0) {
+      onLog(`Converted ${extracted.equations.length} equation(s) to LaTeX.`, "success");
+    }
+
+    // mammoth's browser build reads `arrayBuffer`, its Node build `buffer`
+    const input = { arrayBuffer: extracted.arrayBuffer, buffer: extracted.arrayBuffer };
+    const result = await (mammoth as any).convertToHtml(input, options);
+    reportMessages(result.messages, onLog);
 
     onLog("Refining document structure...", "info");
+    const html = result.value
+      .replace(LIST_START, '<ol start="$2">$1').replace(LIST_START_MARKER, '')
+      .replace(CELL_ALIGN, '<$1$2 align="$4">$3').replace(CELL_ALIGN_MARKER, '');
+    let markdown = htmlToMarkdown(html);
+
+    // 1. Figure captions fold into their images; a diagram's caption is part of its
+    //    fence, so the caption paragraph goes too
+    markdown = markdown.replace(DIAGRAM_PLACEHOLDER, (_: string, index: string) => `@@DIAGRAM:${index}@@`);
+    markdown = restoreCaptions(markdown);
+
+    // 2. Rebuild blockquotes and GitHub-style callouts from their paragraph styles, and task lists
+    markdown = restoreQuotes(markdown);
+    markdown = restoreTaskItems(markdown);
+
+    // 3. Comments and tracked changes, then whatever syntax the plugins rebuild
+    if (extracted.comments.size) {
+      markdown = placeComments(markdown, extracted.comments, settings.comments);
+      onLog(`${extracted.comments.size} comment(s) kept as ${settings.comments === 'html' ? 'HTML comments' : 'footnotes'}.`, "info");
+    }
+    if (extracted.changes) {
+      if (settings.trackedChanges === 'markup') {
+        CHANGE_MARKERS.forEach(([marker, markup]) => { markdown = markdown.replace(marker, markup); });
+        markdown = markdown.replace(/\{\+\+\+\+\}|\{----\}/g, '');
+        onLog(`${extracted.changes} tracked change(s) shown as CriticMarkup.`, "info");
+      } else {
+        onLog(`${extracted.changes} tracked change(s) accepted.`, "info");
+      }
+    }
+    plugins.forEach(plugin => { if (plugin.word?.restore) markdown = plugin.word.restore(markdown); });
 
-    // 1. Convert mammoth's raw placeholders into proper Markdown image syntax
-    // The AI polisher will later finalize the naming (e.g., images/figure_x.png)
-    markdown = markdown.replace(/src="IMAGE_PATH_PLACEHOLDER_(\d+)"/g, '![](images/figure_$1.png)');
-    markdown = markdown.replace(/!\[\]\(IMAGE_PATH_PLACEHOLDER_(\d+)\)/g, '![](images/figure_$1.png)');
+    // 4. Put the equations and diagram sources back last, so no escaping can touch them
+    markdown = markdown.replace(MATH_MARKER, (_: string, kind: string, index: string) => {
+      const latex = extracted.equations[Number(index)];
+      return kind === 'BLOCK' ? `$$\n${latex}\n$$` : `$${latex}$`;
+    });
+    markdown = markdown.replace(DIAGRAM_MARKER, (_: string, index: string) => diagramFences[Number(index)]);
 
-    // 2. Initial escape cleanup to help the AI model process the text more efficiently
-    markdown = markdown.replace(/\\([_()\[\]"'])/g, '$1');
-    markdown = markdown.replace(/\\\./g, '.');
-    markdown = markdown.replace(/\\-/g, '-');
+    // 5. Title page paragraphs, document properties and layout switches go back to the top as front matter
+    const metadata = extracted.metadata;
+    const titleBlock = extractTitleBlock(markdown, metadata);
+    const layout = extractLayoutMarkers(titleBlock.markdown);
+    markdown = layout.markdown;
+    const frontMatter = buildFrontMatter(metadata, {
+      titlePage: titleBlock.found,
+      toc: layout.toc,
+      numberedHeadings: layout.numberedHeadings,
+    });
+    if (frontMatter) {
+      markdown = frontMatter + markdown.replace(/^\s+/, '');
+      onLog("Document properties written as front matter.", "success");
+    }
 
+    if (images.size > 0) {
+      onLog(`Extracted ${images.size} image(s) into ${settings.imageDir}/.`, "success");
+    }
     onLog("Base Markdown generated successfully.", "success");
-    return markdown;
+    return { markdown, images, metadata };
   } catch (error) {
     onLog(`Extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
     throw error;
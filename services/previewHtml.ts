@@ -0,0 +1,33 @@
+import { DocTheme } from './docThemes';
+
+// Small HTML helpers for the live preview, shared by the preview itself and the
+// plugins' preview renderers. Sizes come in Word's units and leave as CSS.
+
+// Word's own default, which applies when a theme leaves the body font unset
+export const WORD_DEFAULT_FONT = 'Times New Roman';
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const points = (twips: number) => `${twips / 20}pt`;
+export const fontSize = (halfPoints: number) => `${halfPoints / 2}pt`;
+export const fontStack = (...fonts: (string | undefined)[]) =>
+  [...new Set(fonts.filter(Boolean))].map(font => `'${font}'`).concat('serif').join(', ');
+
+/** Inline CSS from a property map, as a ` style="…"` attribute; empty values are left out. */
+export const css = (properties: Record<string, string | number | undefined | false>) => {
+  const declarations = Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== false && value !== '')
+    .map(([name, value]) => `${name}: ${value}`);
+  return declarations.length ? ` style="${escapeHtml(declarations.join('; '))}"` : '';
+};
+
+// Links that would run script in the page are shown but not followed
+export const safeHref = (href: string) => /^\s*(javascript|vbscript|data):/i.test(href) ? '#' : href;
+
+// A body paragraph's spacing, first-line indent and justification
+export const bodyStyle = (theme: DocTheme) => ({
+  margin: `0 0 ${points(theme.paragraphAfter)}`,
+  'text-indent': theme.firstLineIndent && points(theme.firstLineIndent),
+  'text-align': theme.justify && 'justify',
+});
@@ -0,0 +1,225 @@
+import { ProtectedContent } from './markdownChunks';
+
+// Named instructions for the AI step. Templates may use {{content}} (the Markdown,
+// or one chunk of it), {{glossary}} (the user's term list) and {{part}} (the
+// preset's note telling the model it sees one part of a longer document).
+
+// `rewrite` presets hand back the document itself, chunk by chunk. `summarize`
+// presets condense each chunk to notes, then merge the notes in one last call.
+export type PromptMode = 'rewrite' | 'summarize';
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  template: string;
+  mode: PromptMode;
+  // Fills {{part}} when the document is sent in chunks; {{index}} and {{total}} number the chunk
+  partNote: string;
+  // What the model must hand back unchanged; anything else fails the chunk
+  protect: ProtectedContent[];
+  builtIn?: boolean;
+}
+
+export interface PromptLibrary {
+  custom: PromptPreset[];
+  selectedId: string;
+  glossary: string;
+}
+
+const ALL_CONTENT: ProtectedContent[] = ['code', 'images', 'tables'];
+
+const OUTPUT_RULE = '请只输出 Markdown 源文本，不附加任何解释说明或开场白。';
+
+export const REWRITE_PART_NOTE = '这是一篇长文档的第 {{index}}/{{total}} 部分。只处理这一部分，不要补写前后文、目录或总结。';
+export const SUMMARY_PART_NOTE = '这是一篇长文档的第 {{index}}/{{total}} 部分。只提炼这一部分的要点，它们稍后会与其他部分的要点合并。';
+// {{part}} of a summary's last call, whose {{content}} is the notes of every part
+export const MERGE_NOTE = '下面是同一篇长文档各部分的要点，按原文顺序排列。请把它们合并为一份完整的结果，去除重复内容，不要按部分分别输出。';
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  {
+    id: 'cleanup',
+    mode: 'rewrite',
+    partNote: REWRITE_PART_NOTE,
+    name: 'Clean up converted Markdown',
+    protect: ALL_CONTENT,
+    builtIn: true,
+    template: `你是一位专业的文档整理专家。请将提供的内容整理为 Markdown 文档，并严格遵守以下要求：
+
+- 禁止生成 base64 或 data:image 格式的图片
+- 不内嵌任何图片二进制内容
+- 所有图片仅以 Markdown 图片路径形式表示，例如：![](images/figure_x.png)
+- 对于 Word 中的图表、流程图、可视化结果，只保留图片占位引用
+- 如果图片无法直接引用，请用【图 X：内容描述】的文字说明代替
+- 彻底清除所有冗余的反斜杠转义字符（如 p\\_value 应为 p_value，print\\( 应为 print(）
+- 确保代码块（Python/Data Science）被正确包裹在 \`\`\`python 中
+- 保持 Markdown 结构清晰，适合后续转换为 Word / PDF / LaTeX
+
+${OUTPUT_RULE}
+{{part}}
+待处理内容如下：
+{{content}}`,
+  },
+  {
+    id: 'translate-zh-en',
+    mode: 'rewrite',
+    partNote: REWRITE_PART_NOTE,
+    name: 'Translate Chinese → English',
+    protect: ['code', 'images'],
+    builtIn: true,
+    template: `你是一位专业的技术翻译。请把下面的 Markdown 文档从中文翻译成地道、准确的英文：
+
+- 保持原有的 Markdown 结构（标题层级、列表、表格、链接、脚注）不变
+- 代码块、行内代码、公式和图片路径原样保留，不要翻译
+- 术语前后统一；如有术语表，以术语表为准
+
+术语表：
+{{glossary}}
+
+${OUTPUT_RULE}
+{{part}}
+待翻译内容如下：
+{{content}}`,
+  },
+  {
+    id: 'translate-en-zh',
+    mode: 'rewrite',
+    partNote: REWRITE_PART_NOTE,
+    name: 'Translate English → Chinese',
+    protect: ['code', 'images'],
+    builtIn: true,
+    template: `你是一位专业的技术翻译。请把下面的 Markdown 文档从英文翻译成通顺、准确的简体中文：
+
+- 保持原有的 Markdown 结构（标题层级、列表、表格、链接、脚注）不变
+- 代码块、行内代码、公式和图片路径原样保留，不要翻译
+- 专有名词首次出现时可在括号中保留英文原文；如有术语表，以术语表为准
+
+术语表：
+{{glossary}}
+
+${OUTPUT_RULE}
+{{part}}
+待翻译内容如下：
+{{content}}`,
+  },
+  {
+    id: 'academic',
+    mode: 'rewrite',
+    partNote: REWRITE_PART_NOTE,
+    name: 'Academic tone',
+    protect: ALL_CONTENT,
+    builtIn: true,
+    template: `你是一位学术写作编辑。请在不改变原意和语言的前提下，将下面的 Markdown 文档改写为严谨、客观的学术语体：
+
+- 去除口语化表达，使用准确、正式的措辞
+- 保持论证逻辑、数据、引用标记（如 [@key]）和交叉引用（如 @fig:x）不变
+- 不增删章节，不改动标题层级、代码块、表格和图片
+
+${OUTPUT_RULE}
+{{part}}
+待改写内容如下：
+{{content}}`,
+  },
+  {
+    id: 'executive-brief',
+    mode: 'summarize',
+    partNote: SUMMARY_PART_NOTE,
+    name: 'Executive brief',
+    protect: [],
+    builtIn: true,
+    template: `你是一位资深咨询顾问。请把下面的 Markdown 文档总结为一份面向管理层的简报，使用与原文相同的语言：
+
+- 以「## 摘要」开头，用三到五句话概括核心结论
+- 接着列出「## 关键要点」「## 风险与问题」「## 建议行动」，每项使用简短的要点列表
+- 只保留决策所需的信息，略去技术细节和代码
+
+${OUTPUT_RULE}
+{{part}}
+待总结内容如下：
+{{content}}`,
+  },
+  {
+    id: 'terminology',
+    mode: 'rewrite',
+    partNote: REWRITE_PART_NOTE,
+    name: 'Normalize terminology',
+    protect: ALL_CONTENT,
+    builtIn: true,
+    template: `你是一位术语编辑。请按照下面的术语表统一 Markdown 文档中的用词：
+
+- 术语表每行一条，格式为「不推荐写法 => 推荐写法」
+- 只替换术语，不改写句子，不调整结构
+- 代码块、行内代码、链接地址和图片路径保持原样
+
+术语表：
+{{glossary}}
+
+${OUTPUT_RULE}
+{{part}}
+待处理内容如下：
+{{content}}`,
+  },
+];
+
+const STORAGE_KEY = 'md2word-pro.prompt-presets';
+
+export const DEFAULT_PROMPT_LIBRARY: PromptLibrary = { custom: [], selectedId: 'cleanup', glossary: '' };
+
+export const allPresets = (library: PromptLibrary): PromptPreset[] => [...BUILT_IN_PRESETS, ...library.custom];
+
+export const selectedPreset = (library: PromptLibrary): PromptPreset =>
+  allPresets(library).find(preset => preset.id === library.selectedId) || BUILT_IN_PRESETS[0];
+
+/** Custom presets, the chosen preset and the glossary, as saved in this browser. */
+export const loadPromptLibrary = (): PromptLibrary => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || !Array.isArray(saved.custom)) return DEFAULT_PROMPT_LIBRARY;
+    return {
+      custom: saved.custom
+        .filter((preset: any) => preset && typeof preset.id === 'string' && typeof preset.template === 'string')
+        .map((preset: any) => ({
+          id: preset.id,
+          name: String(preset.name || 'Untitled preset'),
+          template: preset.template,
+          mode: preset.mode === 'summarize' ? 'summarize' : 'rewrite',
+          partNote: typeof preset.partNote === 'string' ? preset.partNote : REWRITE_PART_NOTE,
+          protect: Array.isArray(preset.protect) ? preset.protect.filter((kind: any) => ALL_CONTENT.includes(kind)) : ALL_CONTENT,
+        })),
+      selectedId: typeof saved.selectedId === 'string' ? saved.selectedId : DEFAULT_PROMPT_LIBRARY.selectedId,
+      glossary: typeof saved.glossary === 'string' ? saved.glossary : '',
+    };
+  } catch {
+    return DEFAULT_PROMPT_LIBRARY;
+  }
+};
+
+export const savePromptLibrary = (library: PromptLibrary) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  } catch {
+    // Private browsing or a full quota: presets last for this session only
+  }
+};
+
+export const usesVariable = (template: string, name: string) => new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template);
+
+/** The preset's {{part}} note for chunk `index` (from 0) of `total`. */
+export const partNote = (preset: PromptPreset, index: number, total: number): string =>
+  preset.partNote.replace(/\{\{\s*(index|total)\s*\}\}/g, (_, name: string) => String(name === 'index' ? index + 1 : total));
+
+/**
+ * Fills in a preset's variables. A template without {{content}} gets the content
+ * appended, so the model always sees the document.
+ */
+export const renderPrompt = (
+  template: string,
+  variables: { content: string; glossary: string; part?: string }
+): string => {
+  const values: Record<string, string> = {
+    glossary: variables.glossary.trim() || '（无）',
+    part: variables.part ? `\n${variables.part}\n` : '',
+    content: variables.content,
+  };
+  const filled = template.replace(/\{\{\s*(content|glossary|part)\s*\}\}/g, (_, name: string) => values[name]);
+  return usesVariable(template, 'content') ? filled : `${filled}\n\n${variables.content}`;
+};
@@ -0,0 +1,319 @@
+import JSZip from 'jszip';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+
+// Applies a user's reference .docx to generated output, the way pandoc's
+// --reference-doc works: its styles, theme fonts, style-linked numbering, page
+// setup, headers and footers replace ours, while any style the reference lacks
+// (callouts, captions, ...) is carried over from the generated document.
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const HEADER_FOOTER_TYPES: Record<string, string> = {
+  header: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml',
+  footer: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml',
+};
+
+export interface ReferencePage {
+  size: { width: number; height: number };
+  margin: { top: number; right: number; bottom: number; left: number; header?: number; footer?: number; gutter?: number };
+}
+
+export interface ReferenceDoc {
+  zip: JSZip;
+  page?: ReferencePage;
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'text/xml');
+const serializeXml = (doc: Document) => new XMLSerializer().serializeToString(doc as any);
+
+const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const file = zip.file(path);
+  return file ? parseXml(await file.async('string')) as unknown as Document : null;
+};
+
+const children = (parent: Element | null | undefined, localName: string): Element[] =>
+  Array.from(parent?.childNodes || []).filter(
+    (node): node is Element => node.nodeType === 1 && (node as Element).localName === localName
+  );
+
+const twips = (element: Element | undefined, name: string): number | undefined => {
+  const value = element?.getAttributeNS(W, name);
+  return value ? Math.abs(parseInt(value, 10)) : undefined;
+};
+
+// The body's final sectPr describes the document's (last) section
+const bodySection = (doc: Document | null): Element | undefined => {
+  const body = doc?.getElementsByTagNameNS(W, 'body')[0];
+  return children(body, 'sectPr')[0];
+};
+
+export const loadReferenceDoc = async (buffer: ArrayBuffer): Promise<ReferenceDoc> => {
+  const zip = await JSZip.loadAsync(buffer);
+  if (!zip.file('word/styles.xml')) throw new Error('The reference document has no styles.xml.');
+
+  const section = bodySection(await readXml(zip, 'word/document.xml'));
+  const pgSz = children(section, 'pgSz')[0];
+  const pgMar = children(section, 'pgMar')[0];
+  const width = twips(pgSz, 'w');
+  const height = twips(pgSz, 'h');
+
+  const page: ReferencePage | undefined = width && height && pgMar ? {
+    size: { width, height },
+    margin: {
+      top: twips(pgMar, 'top') ?? 1440,
+      right: twips(pgMar, 'right') ?? 1440,
+      bottom: twips(pgMar, 'bottom') ?? 1440,
+      left: twips(pgMar, 'left') ?? 1440,
+      header: twips(pgMar, 'header'),
+      footer: twips(pgMar, 'footer'),
+      gutter: twips(pgMar, 'gutter'),
+    },
+  } : undefined;
+
+  return { zip, page };
+};
+
+const maxId = (elements: Element[], attribute: string) =>
+  elements.reduce((max, element) => Math.max(max, parseInt(element.getAttributeNS(W, attribute) || '0', 10)), 0);
+
+// Reference numbering is appended after ours with shifted ids, and the styles that
+// link to it (numbered headings, list styles) are pointed at the new ids.
+const mergeNumbering = (output: Document, reference: Document, referenceStyles: Document) => {
+  const root = output.documentElement;
+  const abstractOffset = maxId(children(root, 'abstractNum'), 'abstractNumId') + 1;
+  const numOffset = maxId(children(root, 'num'), 'numId');
+  const firstNum = children(root, 'num')[0] || null;
+
+  for (const abstractNum of children(reference.documentElement, 'abstractNum')) {
+    const copy = output.importNode(abstractNum, true) as Element;
+    copy.setAttributeNS(W, 'w:abstractNumId', String(parseInt(copy.getAttributeNS(W, 'abstractNumId') || '0', 10) + abstractOffset));
+    root.insertBefore(copy, firstNum);
+  }
+  for (const num of children(reference.documentElement, 'num')) {
+    const copy = output.importNode(num, true) as Element;
+    copy.setAttributeNS(W, 'w:numId', String(parseInt(copy.getAttributeNS(W, 'numId') || '0', 10) + numOffset));
+    for (const link of children(copy, 'abstractNumId')) {
+      link.setAttributeNS(W, 'w:val', String(parseInt(link.getAttributeNS(W, 'val') || '0', 10) + abstractOffset));
+    }
+    root.appendChild(copy);
+  }
+
+  for (const numId of Array.from(referenceStyles.getElementsByTagNameNS(W, 'numId'))) {
+    const value = parseInt(numId.getAttributeNS(W, 'val') || '0', 10);
+    // numId 0 means "no numbering" and stays as it is
+    if (value > 0) numId.setAttributeNS(W, 'w:val', String(value + numOffset));
+  }
+};
+
+const mergeStyles = (output: Document, reference: Document) => {
+  const known = new Set(
+    Array.from(reference.getElementsByTagNameNS(W, 'style')).map(style => style.getAttributeNS(W, 'styleId'))
+  );
+  for (const style of Array.from(output.getElementsByTagNameNS(W, 'style'))) {
+    if (!known.has(style.getAttributeNS(W, 'styleId'))) {
+      reference.documentElement.appendChild(reference.importNode(style, true));
+    }
+  }
+};
+
+// Resolves a relationship target, relative to word/ unless it is absolute
+const partPath = (target: string) => target.startsWith('/') ? target.slice(1) : `word/${target}`;
+const fileName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// The package files every added part has to be registered in
+interface PackageIndex {
+  rels: Document;
+  contentTypes: Document;
+  nextId: number;
+}
+
+const addRelationship = (index: PackageIndex, type: string, target: string): string => {
+  const id = `rIdRef${index.nextId++}`;
+  const rel = index.rels.createElementNS(PACKAGE_RELATIONSHIPS, 'Relationship');
+  rel.setAttribute('Id', id);
+  rel.setAttribute('Type', type);
+  rel.setAttribute('Target', target);
+  index.rels.documentElement.appendChild(rel);
+  return id;
+};
+
+const addOverride = (index: PackageIndex, path: string, contentType: string) => {
+  const partName = `/${path}`;
+  const existing = Array.from(index.contentTypes.getElementsByTagNameNS(CONTENT_TYPES, 'Override'))
+    .some(override => override.getAttribute('PartName') === partName);
+  if (existing) return;
+  const override = index.contentTypes.createElementNS(CONTENT_TYPES, 'Override');
+  override.setAttribute('PartName', partName);
+  override.setAttribute('ContentType', contentType);
+  index.contentTypes.documentElement.appendChild(override);
+};
+
+const addDefault = (index: PackageIndex, extension: string, contentType: string) => {
+  const existing = Array.from(index.contentTypes.getElementsByTagNameNS(CONTENT_TYPES, 'Default'))
+    .some(entry => entry.getAttribute('Extension')?.toLowerCase() === extension);
+  if (existing) return;
+  const entry = index.contentTypes.createElementNS(CONTENT_TYPES, 'Default');
+  entry.setAttribute('Extension', extension);
+  entry.setAttribute('ContentType', contentType);
+  index.contentTypes.documentElement.insertBefore(entry, index.contentTypes.documentElement.firstChild);
+};
+
+const relationships = (rels: Document | null) =>
+  Array.from(rels?.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS, 'Relationship') || []);
+
+// Copies the reference's header and footer parts (with the images they use) and
+// returns the sectPr references pointing at the copies.
+const copyHeadersAndFooters = async (
+  zip: JSZip,
+  reference: JSZip,
+  referenceSection: Element,
+  index: PackageIndex,
+  sectionDoc: Document
+): Promise<Element[]> => {
+  const referenceRels = await readXml(reference, 'word/_rels/document.xml.rels');
+  const referenceTypes = await readXml(reference, '[Content_Types].xml');
+  const targets = new Map(relationships(referenceRels).map(rel => [rel.getAttribute('Id'), rel]));
+  const defaultType = (extension: string) =>
+    Array.from(referenceTypes?.getElementsByTagNameNS(CONTENT_TYPES, 'Default') || [])
+      .find(entry => entry.getAttribute('Extension')?.toLowerCase() === extension)?.getAttribute('ContentType');
+
+  const copied: Element[] = [];
+  for (const kind of ['header', 'footer']) {
+    for (const element of children(referenceSection, `${kind}Reference`)) {
+      const rel = targets.get(element.getAttributeNS(R, 'id'));
+      const source = rel && partPath(rel.getAttribute('Target') || '');
+      const part = source && reference.file(source);
+      if (!rel || !source || !part) continue;
+
+      const name = `ref_${fileName(source)}`;
+      zip.file(`word/${name}`, await part.async('uint8array'));
+      addOverride(index, `word/${name}`, HEADER_FOOTER_TYPES[kind]);
+
+      // Images and other parts the header links to come along under a ref_ prefix
+      const partRelsPath = `${source.slice(0, source.lastIndexOf('/') + 1)}_rels/${fileName(source)}.rels`;
+      const partRels = await readXml(reference, partRelsPath);
+      if (partRels) {
+        for (const partRel of relationships(partRels)) {
+          if (partRel.getAttribute('TargetMode') === 'External') continue;
+          const mediaPath = partPath(partRel.getAttribute('Target') || '');
+          const media = reference.file(mediaPath);
+          if (!media) continue;
+          const mediaName = `ref_${fileName(mediaPath)}`;
+          zip.file(`word/media/${mediaName}`, await media.async('uint8array'));
+          partRel.setAttribute('Target', `media/${mediaName}`);
+          const extension = mediaName.slice(mediaName.lastIndexOf('.') + 1).toLowerCase();
+          const contentType = defaultType(extension);
+          if (contentType) addDefault(index, extension, contentType);
+        }
+        zip.file(`word/_rels/${name}.rels`, serializeXml(partRels));
+      }
+
+      const id = addRelationship(index, rel.getAttribute('Type') || '', name);
+      const copy = sectionDoc.importNode(element, true) as Element;
+      copy.setAttributeNS(R, 'r:id', id);
+      copied.push(copy);
+    }
+  }
+  return copied;
+};
+
+// Elements that follow titlePg / docGrid in a sectPr, in schema order
+const AFTER_TITLE_PAGE = ['textDirection', 'bidi', 'rtlGutter', 'docGrid', 'printerSettings'];
+const AFTER_DOC_GRID = ['printerSettings'];
+
+const insertInOrder = (section: Element, element: Element, before: string[]) => {
+  const next = Array.from(section.childNodes).find(
+    node => node.nodeType === 1 && before.includes((node as Element).localName)
+  );
+  section.insertBefore(element, next || null);
+};
+
+// Points every section at the reference headers and footers, and takes over its
+// first-page switch and document grid.
+const applySectionSettings = (document: Document, referenceSection: Element, headersAndFooters: Element[]) => {
+  const referenceTitlePage = children(referenceSection, 'titlePg')[0];
+  const referenceGrid = children(referenceSection, 'docGrid')[0];
+  const replacedKinds = new Set(headersAndFooters.map(element => element.localName));
+
+  for (const section of Array.from(document.getElementsByTagNameNS(W, 'sectPr'))) {
+    const kept = [...children(section, 'headerReference'), ...children(section, 'footerReference')]
+      .filter(element => !replacedKinds.has(element.localName));
+    for (const element of [...children(section, 'headerReference'), ...children(section, 'footerReference')]) {
+      section.removeChild(element);
+    }
+    const references = [...headersAndFooters.map(element => element.cloneNode(true) as Element), ...kept]
+      .sort((a, b) => (a.localName === 'headerReference' ? 0 : 1) - (b.localName === 'headerReference' ? 0 : 1));
+    const first = section.firstChild;
+    for (const element of references) section.insertBefore(element, first);
+
+    if (referenceTitlePage && !children(section, 'titlePg').length) {
+      insertInOrder(section, document.importNode(referenceTitlePage, true) as Element, AFTER_TITLE_PAGE);
+    }
+    if (referenceGrid) {
+      children(section, 'docGrid').forEach(grid => section.removeChild(grid));
+      insertInOrder(section, document.importNode(referenceGrid, true) as Element, AFTER_DOC_GRID);
+    }
+  }
+};
+
+const THEME_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme';
+const THEME_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.theme+xml';
+
+/** Rewrites a generated .docx so it takes its look from the reference document. */
+export const applyReferenceDoc = async (blob: Blob, reference: ReferenceDoc): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  const ref = reference.zip;
+
+  const [document, styles, numbering, rels, contentTypes] = await Promise.all([
+    readXml(zip, 'word/document.xml'),
+    readXml(zip, 'word/styles.xml'),
+    readXml(zip, 'word/numbering.xml'),
+    readXml(zip, 'word/_rels/document.xml.rels'),
+    readXml(zip, '[Content_Types].xml'),
+  ]);
+  const [referenceDocument, referenceStyles, referenceNumbering] = await Promise.all([
+    readXml(ref, 'word/document.xml'),
+    readXml(ref, 'word/styles.xml'),
+    readXml(ref, 'word/numbering.xml'),
+  ]);
+  if (!document || !styles || !rels || !contentTypes || !referenceStyles) return blob;
+  const index: PackageIndex = { rels, contentTypes, nextId: 1 };
+
+  // 1. Styles: the reference's, plus ours for anything it doesn't define
+  if (numbering && referenceNumbering) {
+    mergeNumbering(numbering, referenceNumbering, referenceStyles);
+    zip.file('word/numbering.xml', serializeXml(numbering));
+  }
+  mergeStyles(styles, referenceStyles);
+  zip.file('word/styles.xml', serializeXml(referenceStyles));
+
+  // 2. Theme fonts and colours, which the reference styles may refer to
+  const referenceTheme = relationships(await readXml(ref, 'word/_rels/document.xml.rels'))
+    .find(rel => rel.getAttribute('Type') === THEME_RELATIONSHIP);
+  const themeFile = referenceTheme && ref.file(partPath(referenceTheme.getAttribute('Target') || ''));
+  if (themeFile) {
+    const existing = relationships(rels).find(rel => rel.getAttribute('Type') === THEME_RELATIONSHIP);
+    const target = existing?.getAttribute('Target') || 'theme/theme1.xml';
+    zip.file(partPath(target), await themeFile.async('uint8array'));
+    if (!existing) addRelationship(index, THEME_RELATIONSHIP, target);
+    addOverride(index, partPath(target), THEME_CONTENT_TYPE);
+  }
+
+  // 3. Headers, footers and section settings
+  const referenceSection = bodySection(referenceDocument);
+  if (referenceSection) {
+    const headersAndFooters = await copyHeadersAndFooters(zip, ref, referenceSection, index, document);
+    applySectionSettings(document, referenceSection, headersAndFooters);
+    zip.file('word/document.xml', serializeXml(document));
+  }
+
+  zip.file('word/_rels/document.xml.rels', serializeXml(rels));
+  zip.file('[Content_Types].xml', serializeXml(contentTypes));
+  return await zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    compression: 'DEFLATE',
+  });
+};
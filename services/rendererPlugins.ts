@@ -0,0 +1,165 @@
+import { Marked, Token, Tokens, TokenizerExtension } from 'marked';
+import { IRunOptions, Paragraph, ParagraphChild, Table } from 'docx';
+import { DocTheme } from './docThemes';
+import { CitationToken } from './crossReferences';
+import { SizedImage, CrossReferenceTarget } from './markdownDocument';
+import { BUILT_IN_PLUGINS } from './builtInPlugins';
+import { DocxOptions } from '../types';
+
+// Markdown syntax and how it is laid out in Word, as plugins: each one brings the
+// marked extensions that tokenize its syntax and the renderers that turn those
+// tokens into docx paragraphs, tables and runs. Everything the converter knows
+// is a built-in plugin, so custom syntax is added the same way.
+
+// What a block renderer lays out: paragraphs and tables in the document body
+export type DocxBlock = Paragraph | Table;
+
+/**
+ * What a renderer can draw on while the document is laid out: the settings, and
+ * the converter's own building blocks for nested content, figures and notes.
+ */
+export interface DocxRenderContext {
+  settings: DocxOptions;
+  theme: DocTheme;
+  // Width between the page margins, in twips
+  contentWidth: number;
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void;
+  renderBlocks: (tokens: Token[]) => DocxBlock[];
+  renderInline: (tokens: Token[], props?: IRunOptions) => ParagraphChild[];
+  renderImage: (image: SizedImage) => ParagraphChild;
+  renderFigure: (image: SizedImage) => Paragraph[];
+  renderCaption: (kind: string, children: ParagraphChild[], label?: string) => Paragraph;
+  renderList: (list: Tokens.List, depth: number) => DocxBlock[];
+  renderQuote: (quote: Tokens.Blockquote, depth: number) => DocxBlock[];
+  // A fence, or the diagram drawn from it
+  renderCode: (code: Tokens.Code) => DocxBlock[];
+  renderMath: (latex: string, inline: boolean) => ParagraphChild;
+  // The footnote's number, or undefined when it has no definition or is referenced
+  // from inside another footnote
+  renderFootnote: (label: string) => number | undefined;
+  renderCitation: (token: CitationToken, props: IRunOptions) => ParagraphChild[];
+  renderPageBreak: () => Paragraph;
+  // Cross-reference targets, numbered before layout began
+  labels: Map<string, CrossReferenceTarget>;
+  // The `Table: ...` paragraph captioning a table, and whether a paragraph is one
+  tableCaption: (table: Token) => Tokens.Paragraph | undefined;
+  isTableCaption: (token: Token) => boolean;
+  // Marks where the reference list goes; it is swapped for the entries at the end
+  bibliographyPlaceholder: Paragraph;
+}
+
+// Inline HTML opens and closes styles across sibling tokens rather than wrapping them
+export interface InlineStyles {
+  open: (tag: string, props: IRunOptions) => void;
+  close: (tag: string) => void;
+}
+
+export type BlockRenderer = (token: Token, context: DocxRenderContext) => DocxBlock[];
+export type InlineRenderer = (token: Token, context: DocxRenderContext, props: IRunOptions, styles: InlineStyles) => ParagraphChild[];
+
+/**
+ * The preview's counterpart of DocxRenderContext: the same building blocks, each
+ * returning HTML that looks the way the Word output will.
+ */
+export interface PreviewContext {
+  settings: DocxOptions;
+  theme: DocTheme;
+  onLog: (msg: string, level?: 'info' | 'success' | 'warning' | 'error') => void;
+  renderBlocks: (tokens: Token[]) => string;
+  renderInline: (tokens: Token[]) => string;
+  renderImage: (image: SizedImage) => string;
+  renderFigure: (image: SizedImage) => string;
+  renderCaption: (kind: string, html: string, label?: string) => string;
+  renderList: (list: Tokens.List, depth: number) => string;
+  renderQuote: (quote: Tokens.Blockquote) => string;
+  // A fence, or the diagram drawn from it
+  renderCode: (code: Tokens.Code) => string;
+  renderMath: (latex: string, inline: boolean) => string;
+  renderFootnote: (label: string) => number | undefined;
+  renderCitation: (token: CitationToken) => string;
+  renderPageBreak: () => string;
+  labels: Map<string, CrossReferenceTarget>;
+  tableCaption: (table: Token) => Tokens.Paragraph | undefined;
+  isTableCaption: (token: Token) => boolean;
+  bibliographyPlaceholder: string;
+}
+
+export interface RendererPlugin {
+  id: string;
+  name: string;
+  description: string;
+  // The plain Markdown everything else builds on; it can't be switched off
+  required?: boolean;
+  extensions?: TokenizerExtension[];
+  // Renderers by token type; a later plugin's renderer replaces an earlier one's
+  blocks?: Record<string, BlockRenderer>;
+  inlines?: Record<string, InlineRenderer>;
+  // HTML for the live preview, by token type like the renderers above
+  preview?: {
+    blocks?: Record<string, PreviewRenderer>;
+    inlines?: Record<string, PreviewRenderer>;
+  };
+  // Word → Markdown: mammoth style mappings, and a pass over the generated Markdown
+  word?: {
+    styleMap?: string[];
+    restore?: (markdown: string) => string;
+  };
+}
+
+const registry: RendererPlugin[] = [...BUILT_IN_PLUGINS];
+const parsers = new Map<string, Marked>();
+
+/** Adds a plugin, or replaces the registered one with the same id. */
+export const registerPlugin = (plugin: RendererPlugin) => {
+  const index = registry.findIndex(registered => registered.id === plugin.id);
+  if (index === -1) registry.push(plugin);
+  else registry[index] = plugin;
+  parsers.clear();
+};
+
+export const listPlugins = (): RendererPlugin[] => [...registry];
+
+/** The registered plugins minus the switched-off ones, in registration order. */
+export const enabledPlugins = (disabled: string[] = []): RendererPlugin[] =>
+  registry.filter(plugin => plugin.required || !disabled.includes(plugin.id));
+
+/** A marked instance with the plugins' extensions, reused while the set is unchanged. */
+export const markdownParserFor = (plugins: RendererPlugin[]): Marked => {
+  const key = plugins.map(plugin => plugin.id).join(' ');
+  let parser = parsers.get(key);
+  if (!parser) {
+    parser = new Marked({ extensions: plugins.flatMap(plugin => plugin.extensions || []) });
+    parsers.set(key, parser);
+  }
+  return parser;
+};
+
+export type PreviewRenderer = (token: Token, context: PreviewContext) => string;
+
+/** Block, inline and preview renderers of the plugins, merged by token type. */
+export const pluginRenderers = (plugins: RendererPlugin[]) => ({
+  blocks: Object.assign({}, ...plugins.map(plugin => plugin.blocks || {})) as Record<string, BlockRenderer>,
+  inlines: Object.assign({}, ...plugins.map(plugin => plugin.inlines || {})) as Record<string, InlineRenderer>,
+  previewBlocks: Object.assign({}, ...plugins.map(plugin => plugin.preview?.blocks || {})) as Record<string, PreviewRenderer>,
+  previewInlines: Object.assign({}, ...plugins.map(plugin => plugin.preview?.inlines || {})) as Record<string, PreviewRenderer>,
+});
+
+const STORAGE_KEY = 'md2word-pro.plugins';
+
+/** Ids of the plugins switched off in this browser. */
+export const loadDisabledPlugins = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return Array.isArray(saved) ? saved.filter((id: any) => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDisabledPlugins = (disabled: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(disabled));
+  } catch {
+    // Private browsing or a full quota: the choice lasts for this session only
+  }
+};
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { loadFixtures, roundTrip, outline, fidelity, RoundTrip, ConstructKind, Fidelity } from './roundTrip';
+
+const fixtures = loadFixtures();
+
+// Constructs that have to come back exactly as written, in every fixture
+const STRUCTURAL: ConstructKind[] = ['heading', 'list', 'table', 'code', 'image', 'link', 'footnote'];
+
+// Known losses keep a feature below 1; the floor stops it from slipping further
+const FIDELITY_FLOORS: Record<string, number> = {
+  // Word keeps no labels: `Table: caption {#tbl:x}` comes back as a numbered
+  // paragraph above the table, and `@tbl:x` as the text of its field, `Table 1`
+  captions: 0.7,
+};
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+// Converted while the tests are collected, so each fixture's score can name its test
+const results = new Map<string, RoundTrip>();
+const scores = new Map<string, Fidelity>();
+for (const fixture of fixtures) {
+  const result = await roundTrip(fixture.markdown);
+  results.set(fixture.name, result);
+  scores.set(fixture.name, fidelity(outline(fixture.markdown), outline(result.markdown)));
+}
+
+describe.each(fixtures)('$name', ({ name, markdown }) => {
+  it.each(STRUCTURAL)('keeps its %s constructs', kind => {
+    const constructs = (text: string) => outline(text).filter(construct => construct.kind === kind).map(construct => construct.text);
+    expect(constructs(results.get(name)!.markdown)).toEqual(constructs(markdown));
+  });
+
+  it('converts without warnings', () => {
+    expect(results.get(name)!.warnings).toEqual([]);
+  });
+
+  it('matches the golden document.xml', async () => {
+    await expect(results.get(name)!.documentXml).toMatchFileSnapshot(`golden/${name}.document.xml`);
+  });
+
+  const { kept, total, score, lost } = scores.get(name)!;
+  it(`keeps ${kept}/${total} constructs in order (${percent(score)})`, () => {
+    expect(score, `lost: ${lost.join('; ')}`).toBeGreaterThanOrEqual(FIDELITY_FLOORS[name] ?? 1);
+  });
+});
+
+describe('footnotes', () => {
+  it('keeps a reference from inside another footnote as text', async () => {
+    const { markdown, warnings } = await roundTrip('Text[^a] and more[^b].\n\n[^a]: See also[^b].\n[^b]: Other.\n');
+    expect(warnings).toEqual([expect.stringContaining("Word can't nest footnotes")]);
+    // Both definitions survive; the nested reference is plain text, not a second note
+    expect(markdown).toContain('[^1]: See also\\[^b].');
+    expect(markdown).toContain('[^2]: Other.');
+  });
+});
+
+describe('cross-references', () => {
+  it('gives labels that read the same to Word their own bookmarks', async () => {
+    const long = 'sec:results-for-the-first-experiment-run';
+    const { documentXml } = await roundTrip(
+      `# A {#sec:a-b}\n\n# B {#sec:a_b}\n\n# C {#${long}-a}\n\n# D {#${long}-b}\n\nSee @sec:a-b, @sec:a_b, @${long}-a and @${long}-b.\n`);
+    const bookmarks = [...documentXml.matchAll(/<w:bookmarkStart [^>]*w:name="([^"]+)"/g)].map(match => match[1]);
+    const references = [...documentXml.matchAll(/REF (\w+)/g)].map(match => match[1]);
+    expect(new Set(bookmarks).size).toBe(4);
+    expect(references).toEqual(bookmarks);
+    expect(bookmarks.every(name => name.length <= 40)).toBe(true);
+  });
+});
+
+describe('bibliography', () => {
+  const bibtex = '@book{knuth84, author = {Donald Knuth}, title = {The TeXbook}, year = {1984}}';
+
+  it('puts the references under the heading the document ends with', async () => {
+    const { markdown, warnings } = await roundTrip('# Intro\n\nAs shown [@knuth84].\n\n# References\n', bibtex);
+    expect(warnings).toEqual([]);
+    expect(markdown.match(/^# References$/gm)).toHaveLength(1);
+    expect(markdown).toMatch(/# References\n\nKnuth/);
+  });
+
+  it('adds a heading of its own only when reference-section-title names one', async () => {
+    const { markdown } = await roundTrip('---\nreference-section-title: Works Cited\n---\n\nAs shown [@knuth84].\n', bibtex);
+    expect(markdown).toMatch(/# Works Cited\n\nKnuth/);
+  });
+});
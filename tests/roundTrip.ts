@@ -0,0 +1,200 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import JSZip from 'jszip';
+import { Token } from 'marked';
+import { markdownToDocx, docxToMarkdown } from '../services/conversionApi';
+import { markdownParser, inlineText, decodeEntities } from '../services/markdownDocument';
+import { splitFrontMatter } from '../services/frontMatter';
+
+// Helpers for the round-trip suite: converts the fixtures Markdown → Word → Markdown
+// and reduces both ends to an outline of constructs that can be compared.
+
+export type ConstructKind = 'heading' | 'paragraph' | 'list' | 'table' | 'alignment' | 'code' | 'image' | 'link' | 'emphasis' | 'footnote';
+
+export interface Construct {
+  kind: ConstructKind;
+  text: string;
+}
+
+export interface Fixture {
+  name: string;
+  markdown: string;
+}
+
+export interface RoundTrip {
+  markdown: string;
+  documentXml: string;
+  warnings: string[];
+}
+
+const FIXTURE_DIR = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+const toBuffer = (data: Buffer): ArrayBuffer => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+
+/** Every fixture document, one per feature, named after its file. */
+export const loadFixtures = (): Fixture[] =>
+  readdirSync(FIXTURE_DIR).filter(file => file.endsWith('.md')).sort().map(file => ({
+    name: path.basename(file, '.md'),
+    markdown: readFileSync(path.join(FIXTURE_DIR, file), 'utf8'),
+  }));
+
+const loadAssets = (): Map<string, ArrayBuffer> => {
+  const assets = new Map<string, ArrayBuffer>();
+  for (const file of readdirSync(path.join(FIXTURE_DIR, 'images'))) {
+    assets.set(`images/${file}`, toBuffer(readFileSync(path.join(FIXTURE_DIR, 'images', file))));
+  }
+  return assets;
+};
+
+export const roundTrip = async (markdown: string, bibliography?: string): Promise<RoundTrip> => {
+  const { docx, logs } = await markdownToDocx({ markdown, assets: loadAssets(), bibliography });
+  const back = await docxToMarkdown({ docx });
+  const zip = await JSZip.loadAsync(docx);
+  return {
+    markdown: back.markdown,
+    documentXml: normalizeDocumentXml(await zip.file('word/document.xml')!.async('string')),
+    warnings: [...logs, ...back.logs].filter(log => log.level === 'warning' || log.level === 'error').map(log => log.message),
+  };
+};
+
+/**
+ * document.xml with the ids that change from run to run renumbered in order of
+ * appearance (relationship ids are random, drawing and bookmark ids count up for
+ * the whole process), and one paragraph, row or table per line so diffs read well.
+ */
+export const normalizeDocumentXml = (xml: string): string => {
+  const renumber = (pattern: RegExp, format: (n: number) => string) => {
+    const seen = new Map<string, string>();
+    xml = xml.replace(pattern, (_, prefix: string, id: string) => {
+      if (!seen.has(id)) seen.set(id, format(seen.size + 1));
+      return `${prefix}"${seen.get(id)}"`;
+    });
+  };
+  renumber(/(r:(?:id|embed)=)"([^"]+)"/g, n => `rId${n}`);
+  renumber(/(<wp:docPr id=)"(\d+)"/g, String);
+  renumber(/(<w:bookmark(?:Start|End)\b[^>]*?w:id=)"(\d+)"/g, String);
+  return xml.replace(/(?=<w:(?:p|tbl|tr|sectPr)[ >])/g, '\n') + '\n';
+};
+
+const cellText = (cell: { tokens: Token[] }) => inlineText(cell.tokens).trim();
+
+// Inline constructs worth keeping apart from the plain text: links, images and
+// formatting, each in a form that doesn't depend on how they were nested
+const inlineParts = (tokens: any[]): Construct[] => tokens.flatMap((token): Construct[] => {
+  const nested = token.tokens ? inlineParts(token.tokens) : [];
+  switch (token.type) {
+    case 'link':
+      return [{ kind: 'link', text: `[${inlineText(token.tokens)}](${token.href})` }, ...nested];
+    case 'image':
+      // Images come back under new names in the extracted media folder
+      return [{ kind: 'image', text: `![${token.text}]` }];
+    case 'strong':
+      return [{ kind: 'emphasis', text: `**${inlineText(token.tokens)}**` }, ...nested];
+    case 'em':
+      return [{ kind: 'emphasis', text: `*${inlineText(token.tokens)}*` }, ...nested];
+    case 'codespan':
+      return [{ kind: 'emphasis', text: `\`${decodeEntities(token.text)}\`` }];
+    case 'footnoteRef':
+      return [{ kind: 'footnote', text: `[^${token.label}]` }];
+    default:
+      return nested;
+  }
+});
+
+// `**[a](b)**` and `[**a**](b)` are the same thing, so the order within a block is left out
+const inlineConstructs = (tokens: any[]): Construct[] =>
+  inlineParts(tokens).sort((a, b) => `${a.kind}${a.text}`.localeCompare(`${b.kind}${b.text}`));
+
+const plainText = (tokens: any[]) => decodeEntities(inlineText(tokens)).replace(/\s+/g, ' ').trim();
+
+const blockConstructs = (tokens: Token[], depth: number): Construct[] => tokens.flatMap((token: any): Construct[] => {
+  switch (token.type) {
+    case 'heading':
+      return [{ kind: 'heading', text: `h${token.depth} ${plainText(token.tokens)}` }, ...inlineConstructs(token.tokens)];
+    case 'paragraph':
+      return [
+        ...(plainText(token.tokens) ? [{ kind: 'paragraph' as const, text: plainText(token.tokens) }] : []),
+        ...inlineConstructs(token.tokens),
+      ];
+    case 'text':
+      return [{ kind: 'paragraph', text: plainText(token.tokens || [token]) }, ...inlineConstructs(token.tokens || [])];
+    case 'list':
+      return token.items.flatMap((item: any, index: number) => {
+        const [lead, ...rest] = item.tokens.filter((child: any) => child.type !== 'checkbox' && child.type !== 'space');
+        const isText = lead && (lead.type === 'text' || lead.type === 'paragraph');
+        const marker = `${'  '.repeat(depth)}${token.ordered ? `${(token.start === '' ? 1 : token.start) + index}.` : '-'}${item.task ? ` [${item.checked ? 'x' : ' '}]` : ''}`;
+        return [
+          { kind: 'list' as const, text: `${marker} ${isText ? plainText(lead.tokens || [lead]) : ''}` },
+          ...(isText ? inlineConstructs(lead.tokens || []) : []),
+          ...blockConstructs(isText ? rest : [lead, ...rest].filter(Boolean), depth + 1),
+        ];
+      });
+    case 'table':
+      return [
+        { kind: 'alignment', text: token.align.map((align: string | null) => align || 'default').join(' ') },
+        ...[token.header, ...token.rows].map((row: any[]): Construct => ({ kind: 'table', text: `| ${row.map(cellText).join(' | ')} |` })),
+        ...[token.header, ...token.rows].flatMap((row: any[]) => row.flatMap(cell => inlineConstructs(cell.tokens))),
+      ];
+    case 'code':
+      return [{ kind: 'code', text: `${token.lang || ''}\n${token.text}` }];
+    case 'blockquote':
+      return blockConstructs(token.tokens, depth);
+    case 'footnoteDefinition':
+      return [{ kind: 'footnote', text: `[^${token.label}]:` }, ...blockConstructs(token.tokens, depth)];
+    default:
+      return [];
+  }
+});
+
+// Word numbers footnotes in the order they are first referenced, whatever their labels were
+const numberFootnotes = (tokens: Token[]): Token[] => {
+  const numbers = new Map<string, number>();
+  markdownParser.walkTokens(tokens, (token: any) => {
+    if (token.type !== 'footnoteRef' && token.type !== 'footnoteDefinition') return;
+    if (!numbers.has(token.label)) numbers.set(token.label, numbers.size + 1);
+    token.label = String(numbers.get(token.label));
+  });
+  return tokens;
+};
+
+/** The document as a flat list of constructs, in order; front matter is left out. */
+export const outline = (markdown: string): Construct[] =>
+  blockConstructs(numberFootnotes(markdownParser.lexer(splitFrontMatter(markdown).body)), 0);
+
+/** Length of the longest common subsequence: how many constructs survived, in order. */
+const keptInOrder = (source: string[], result: string[]): number => {
+  let previous = new Array(result.length + 1).fill(0);
+  for (const item of source) {
+    const current = [0];
+    result.forEach((other, j) => {
+      current[j + 1] = item === other ? previous[j] + 1 : Math.max(previous[j + 1], current[j]);
+    });
+    previous = current;
+  }
+  return previous[result.length];
+};
+
+export interface Fidelity {
+  kept: number;
+  total: number;
+  score: number;
+  // Source constructs missing from the result
+  lost: string[];
+}
+
+/** How much of the source outline came back, 1 being all of it in the original order. */
+export const fidelity = (source: Construct[], result: Construct[]): Fidelity => {
+  const key = (construct: Construct) => `${construct.kind}: ${construct.text}`;
+  const sourceKeys = source.map(key);
+  const resultKeys = result.map(key);
+  const kept = keptInOrder(sourceKeys, resultKeys);
+  const remaining = [...resultKeys];
+  const lost = sourceKeys.filter(item => {
+    const index = remaining.indexOf(item);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+  return { kept, total: sourceKeys.length, score: sourceKeys.length ? kept / sourceKeys.length : 1, lost };
+};
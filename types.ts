@@ -6,6 +6,12 @@ export interface ProcessingLog {
   message: string;
 }
 
+// One progress message from a conversion, as the headless API collects them
+export interface ConversionLog {
+  level: ProcessingLog['level'];
+  message: string;
+}
+
 export interface FileData {
   file: File;
   content?: string;
@@ -17,6 +23,7 @@ export enum ConversionStatus {
   IDLE = 'IDLE',
   READING = 'READING',
   PARSING = 'PARSING',
+  REVIEWING = 'REVIEWING',
   GENERATING = 'GENERATING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
@@ -26,3 +33,93 @@ export enum ConversionMode {
   MD_TO_DOCX = 'MD_TO_DOCX',
   DOCX_TO_MD = 'DOCX_TO_MD'
 }
+
+// Word→MD output: the Markdown text plus the images it references, keyed by path
+export interface MarkdownResult {
+  markdown: string;
+  metadata: DocumentMetadata;
+  images: Map<string, ArrayBuffer>;
+}
+
+// What happens to Word comments and tracked changes on the way to Markdown
+export type CommentHandling = 'html' | 'footnotes' | 'drop';
+export type TrackedChangeHandling = 'accept' | 'markup';
+
+export interface WordImportOptions {
+  // Folder the extracted images are written to and linked from
+  imageDir: string;
+  comments: CommentHandling;
+  // `markup` keeps insertions and deletions as CriticMarkup `{++ ++}` / `{-- --}`
+  trackedChanges: TrackedChangeHandling;
+  // Extra mammoth style mappings for in-house styles, e.g. `p[style-name='Memo'] => blockquote`
+  styleMap: string[];
+  // Ids of the renderer plugins switched off; their Word mappings are left out too
+  disabledPlugins: string[];
+}
+
+export type CodeTheme = 'light' | 'dark';
+
+export type ThemeName = 'default' | 'academic' | 'corporate' | 'official';
+
+// What a page header or footer shows
+export type HeaderFooterContent = 'none' | 'title' | 'page' | 'page-of-total';
+
+export type PageSize = 'A4' | 'A3' | 'A5' | 'B5' | 'Letter' | 'Legal';
+
+// Page margins in millimetres
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Files besides the Markdown and its images that shape a Word conversion
+export interface DocxResources {
+  // A .docx whose styles, page setup, headers and footers are used (pandoc's --reference-doc)
+  referenceDoc?: ArrayBuffer;
+  // BibTeX or CSL-JSON text that `[@key]` citations resolve against
+  bibliography?: string;
+}
+
+export interface DocxOptions {
+  codeTheme: CodeTheme;
+  codeLineNumbers: boolean;
+  codeLanguageCaption: boolean;
+  diagrams: boolean;
+  theme: ThemeName;
+  titlePage: boolean;
+  toc: boolean;
+  numberedHeadings: boolean;
+  header: HeaderFooterContent;
+  footer: HeaderFooterContent;
+  pageSize: PageSize;
+  margins: PageMargins;
+  // Ids of the renderer plugins switched off, see services/rendererPlugins.ts
+  disabledPlugins: string[];
+}
+
+export type AIProviderKind = 'gemini' | 'openai';
+
+export interface AISettings {
+  provider: AIProviderKind;
+  model: string;
+  temperature: number;
+  // Base URL of the API; empty means the provider's default
+  endpoint: string;
+  apiKey: string;
+  // Long documents are polished in chunks of about this many tokens, this many at a time
+  maxChunkTokens: number;
+  concurrency: number;
+}
+
+// Document properties shared by front matter and Word's core properties
+export interface DocumentMetadata {
+  title?: string;
+  subtitle?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  date?: string;
+  description?: string;
+}
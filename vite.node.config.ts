@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite';
+
+// The headless conversion API and the md2word CLI, built for Node into dist-node/.
+// Dependencies stay external and are loaded from node_modules at run time.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node20',
+    rollupOptions: {
+      input: {
+        index: 'services/conversionApi.ts',
+        md2word: 'cli/md2word.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        banner: chunk => chunk.name === 'md2word' ? '#!/usr/bin/env node' : '',
+      },
+    },
+  },
+});